@@ -0,0 +1,313 @@
+#!/usr/bin/env -S npx tsx
+import { parseArgs } from 'node:util';
+import { OvertimeResult, SalaryResult, TerminationResult, VacationResult } from '../src/lib/calculator';
+import {
+  CalculationEndpoint,
+  overtimeCalculation,
+  salaryCalculation,
+  terminationCalculation,
+  vacationCalculation
+} from '../server/calculations';
+import { Fields, FieldSpec, validateBody } from '../server/fieldSpec';
+
+// Exit codes: 1 for values that fail validation, 2 for a malformed command line
+const EXIT_INVALID = 1;
+const EXIT_USAGE = 2;
+
+type Row = [label: string, value: number | string];
+
+interface Flag {
+  field: string;
+  help: string;
+}
+
+// Each subcommand maps pt-BR flags onto the fields of an API calculation, so
+// the CLI shares its validation and defaults with POST /api/v1/<name>
+interface Command<R> {
+  calculation: CalculationEndpoint<Fields, R>;
+  flags: Record<string, Flag>;
+  rows(result: R): Row[];
+  // Printed to stderr, so they never mix with the table or the JSON
+  warnings?(result: R): string[];
+}
+
+const bruto: Flag = { field: 'salary', help: 'Salário base mensal' };
+const dependentes: Flag = { field: 'dependents', help: 'Dependentes para o IRRF' };
+const bonus: Flag = { field: 'bonuses', help: 'Bônus e comissões do mês' };
+const adicional: Flag = { field: 'hazard', help: 'Adicional de insalubridade ou periculosidade' };
+const competencia: Flag = { field: 'referenceDate', help: 'Competência YYYY-MM; mês atual se omitida' };
+
+// Typed per subcommand, so rows that don't match the calculation's result
+// fail to compile
+interface Commands {
+  salario: Command<SalaryResult>;
+  ferias: Command<VacationResult>;
+  'horas-extras': Command<OvertimeResult>;
+  rescisao: Command<TerminationResult>;
+}
+
+const COMMANDS: Commands = {
+  salario: {
+    calculation: salaryCalculation,
+    flags: {
+      bruto,
+      dependentes,
+      desconto: {
+        field: 'deductions',
+        help: 'Desconto tipo=valor, repetível (ex.: plano-saude=250, vale-refeicao=600:20%, pensao-alimenticia=30%:liquido)'
+      },
+      bonus,
+      adicional,
+      competencia
+    },
+    rows: (r: SalaryResult) => [
+      ['Salário Base', r.baseSalary],
+      ...(r.bonuses > 0 ? [['Bônus / Gratificações', r.bonuses] as Row] : []),
+      ...(r.hazardPay > 0 ? [['Adicional de Insalubridade/Periculosidade', r.hazardPay] as Row] : []),
+      ['Salário Bruto', r.grossSalary],
+      ['INSS', -r.inss],
+      ['IRRF', -r.irrf],
+      ...r.deductionLines.map((line): Row => [line.label, -line.amount]),
+      ['Salário Líquido', r.netSalary],
+      ['FGTS (8%)', r.fgts]
+    ]
+  },
+  ferias: {
+    calculation: vacationCalculation,
+    flags: {
+      bruto,
+      dias: { field: 'days', help: 'Dias de férias gozados' },
+      abono: { field: 'sellTenDays', help: 'Vende 10 dias (abono pecuniário)' },
+      dependentes,
+      vencidas: { field: 'unusedVacationDays', help: 'Dias de férias vencidas a pagar' },
+      bonus,
+      adicional,
+      competencia
+    },
+    rows: (r: VacationResult) => [
+      ['Férias', r.vacationValue],
+      ['1/3 Constitucional', r.oneThirdBonus],
+      ...(r.abonoPecuniario ? [['Abono Pecuniário (10 dias)', r.abonoPecuniario] as Row, ['1/3 sobre Abono', r.abonoOneThird ?? 0] as Row] : []),
+      ['Total Bruto', r.grossTotal],
+      ['INSS sobre Férias', -r.inss],
+      ['IRRF sobre Férias', -r.irrf],
+      ['Total Líquido', r.netTotal]
+    ]
+  },
+  'horas-extras': {
+    calculation: overtimeCalculation,
+    flags: {
+      bruto,
+      jornada: { field: 'monthlyHours', help: 'Jornada mensal em horas' },
+      horas: { field: 'overtimeHours', help: 'Horas extras em dias úteis' },
+      percentual: { field: 'percentage', help: 'Adicional das horas extras em %' },
+      noturnas: { field: 'nightClockHours', help: 'Horas noturnas de relógio (22h às 5h)' },
+      feriados: { field: 'holidayOvertimeHours', help: 'Horas extras em domingos e feriados (100%)' },
+      'dias-uteis': { field: 'workingDays', help: 'Dias úteis do mês; pelo calendário se omitido' },
+      'dias-descanso': { field: 'restDays', help: 'Domingos e feriados do mês; pelo calendário se omitido' },
+      adicional,
+      competencia
+    },
+    rows: (r: OvertimeResult) => [
+      ['Valor da Hora', r.hourlyRate],
+      ['Horas Extras', r.overtimeValue],
+      ...(r.holidayOvertimeValue > 0 ? [['Horas Extras (100%)', r.holidayOvertimeValue] as Row] : []),
+      ['DSR sobre Horas Extras', r.overtimeDsr],
+      ...(r.nightPremium > 0
+        ? [
+            [`Adicional Noturno 20% (${r.nightHours.toFixed(2).replace('.', ',')}h reduzidas)`, r.nightPremium] as Row,
+            ['DSR sobre Adicional Noturno', r.nightPremiumDsr] as Row
+          ]
+        : []),
+      ['Total', r.totalValue]
+    ]
+  },
+  rescisao: {
+    calculation: terminationCalculation,
+    flags: {
+      bruto,
+      inicio: { field: 'startDate', help: 'Data de admissão YYYY-MM-DD' },
+      fim: { field: 'endDate', help: 'Data de desligamento YYYY-MM-DD' },
+      tipo: { field: 'type', help: 'sem-justa-causa, com-justa-causa, pedido-demissao ou comum-acordo' },
+      fgts: { field: 'fgtsBalance', help: 'Saldo do FGTS antes da rescisão' },
+      'ferias-gozadas': { field: 'takenPeriods', help: 'Períodos aquisitivos já gozados' },
+      faltas: { field: 'absences', help: 'Faltas de um período aquisitivo, repetível na ordem dos períodos' },
+      bonus,
+      'aviso-trabalhado': { field: 'noticeWorked', help: 'Aviso prévio trabalhado' },
+      adicional
+    },
+    rows: (r: TerminationResult) => [
+      ['Saldo de Salário', r.salaryBalance],
+      ['13º Salário Proporcional', r.proportionalThirteenth],
+      ...(r.expiredVacation > 0 ? [['Férias Vencidas', r.expiredVacation] as Row] : []),
+      ['Férias Proporcionais', r.proportionalVacation],
+      ['1/3 sobre Férias', r.vacationOneThird],
+      ...(r.noticePeriod ? [[`Aviso Prévio Indenizado (${r.noticeDays} dias)`, r.noticePeriod] as Row] : []),
+      ['Total Bruto', r.grossTotal],
+      ['INSS (sobre Saldo e 13º)', -r.inss],
+      ['IRRF (sobre Saldo e 13º)', -r.irrf],
+      ...(r.noticeDeduction > 0 ? [['Aviso Prévio não Cumprido', -r.noticeDeduction] as Row] : []),
+      ['Total Líquido', r.netTotal],
+      ['Depósito FGTS da Rescisão', r.fgtsDeposit],
+      ...(r.fgtsFine ? [['Multa FGTS', r.fgtsFine] as Row] : []),
+      ['Projeção do Aviso', r.projectedEndDate.toLocaleDateString('pt-BR')]
+    ],
+    warnings: (r: TerminationResult) =>
+      r.takenPeriodsMissing ? ['--ferias-gozadas não informado; todos os períodos completos foram contados como não gozados'] : []
+  }
+};
+
+class UsageError extends Error {}
+
+function findCommand(name: string): Command<unknown> | undefined {
+  return Object.hasOwn(COMMANDS, name) ? COMMANDS[name as keyof Commands] : undefined;
+}
+
+const formatCurrency = (value: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
+
+// Deductions are passed as negative values and printed as "- R$ 10,00"
+const formatValue = (value: number) => (value < 0 ? `- ${formatCurrency(-value)}` : formatCurrency(value || 0));
+
+// Accepts 1234.56 as well as the pt-BR 1234,56
+function toNumber(raw: string): number {
+  const value = raw.trim();
+  return value === '' ? NaN : Number(/^-?\d+,\d+$/.test(value) ? value.replace(',', '.') : value);
+}
+
+// Deductions are tipo=valor, with the percentage and the pensão base as
+// extra parts: vale-refeicao=600:20% or pensao-alimenticia=30%:liquido
+function toDeduction(raw: string): Record<string, unknown> {
+  const [type, spec = ''] = raw.split('=');
+  const deduction: Record<string, unknown> = { type, value: 0 };
+  for (const part of spec.split(':')) {
+    if (part.endsWith('%')) deduction.percentage = toNumber(part.slice(0, -1));
+    else if (part === 'bruto' || part === 'liquido') deduction.alimonyBase = part;
+    else deduction.value = toNumber(part);
+  }
+  return deduction;
+}
+
+// Turns a raw flag value into the JSON shape the field expects; anything
+// wrong is left for validateBody to report
+function convert(spec: FieldSpec, raw: string | boolean | string[]): unknown {
+  if (Array.isArray(raw)) return raw.map((item) => convert(spec.items!, item));
+  if (typeof raw === 'boolean') return raw;
+  switch (spec.type) {
+    case 'number':
+    case 'integer':
+      return toNumber(raw);
+    case 'object':
+      return toDeduction(raw);
+    default:
+      return raw;
+  }
+}
+
+function usage(name?: string): string {
+  const command = name ? findCommand(name) : undefined;
+  if (!command) {
+    return [
+      'Uso: clt-calc <comando> [opções] [--json]',
+      '',
+      'Comandos:',
+      ...Object.keys(COMMANDS).map((key) => `  ${key}`),
+      '',
+      'Use clt-calc <comando> --help para ver as opções.'
+    ].join('\n');
+  }
+  const { calculation } = command;
+  const width = Math.max(...Object.keys(command.flags).map((flag) => flag.length)) + 4;
+  const lines = Object.entries(command.flags).map(([flag, { field, help }]) => {
+    const spec = calculation.fields[field];
+    const notes = [
+      spec.required && 'obrigatório',
+      spec.enum && field !== 'type' && spec.enum.join(', '),
+      spec.type !== 'boolean' && spec.default !== undefined && !Array.isArray(spec.default) && `padrão: ${spec.default}`
+    ].filter(Boolean);
+    return `  --${flag.padEnd(width)}${help}${notes.length > 0 ? ` (${notes.join('; ')})` : ''}`;
+  });
+  return [
+    `Uso: clt-calc ${name} [opções] [--json]`,
+    '',
+    calculation.summary,
+    '',
+    ...lines,
+    `  --${'json'.padEnd(width)}Imprime o resultado em JSON`
+  ].join('\n');
+}
+
+function renderTable(rows: Row[], tableVersion: string): string {
+  const cells = rows.map(([label, value]): [string, string] => [label, typeof value === 'number' ? formatValue(value) : value]);
+  const labelWidth = Math.max(...cells.map(([label]) => label.length));
+  const valueWidth = Math.max(...cells.map(([, value]) => value.length));
+  return [
+    ...cells.map(([label, value]) => `${label.padEnd(labelWidth)}  ${value.padStart(valueWidth)}`),
+    '',
+    `Tabelas ${tableVersion}`
+  ].join('\n');
+}
+
+function run(argv: string[]): number {
+  const [name, ...rest] = argv;
+  if (!name) throw new UsageError('Informe um comando.');
+  if (name === '--help' || name === '-h') {
+    console.log(usage());
+    return 0;
+  }
+  const command = findCommand(name);
+  if (!command) throw new UsageError(`Comando desconhecido: ${name}`);
+  const { calculation } = command;
+
+  const options = Object.fromEntries(Object.entries(command.flags).map(([flag, { field }]) => {
+    const spec = calculation.fields[field];
+    return [flag, { type: spec.type === 'boolean' ? 'boolean' as const : 'string' as const, multiple: spec.type === 'array' }];
+  }));
+  let values: Record<string, string | boolean | string[] | undefined>;
+  try {
+    ({ values } = parseArgs({
+      args: rest,
+      options: { ...options, json: { type: 'boolean' }, help: { type: 'boolean', short: 'h' } },
+      strict: true
+    }));
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+
+  if (values.help) {
+    console.log(usage(name));
+    return 0;
+  }
+
+  const body: Record<string, unknown> = {};
+  for (const [flag, { field }] of Object.entries(command.flags)) {
+    const raw = values[flag];
+    if (raw !== undefined) body[field] = convert(calculation.fields[field], raw);
+  }
+
+  const { value, errors } = validateBody(calculation.fields, body, calculation.check);
+  if (errors.length > 0) {
+    const flagOf = Object.fromEntries(Object.entries(command.flags).map(([flag, { field }]) => [field, flag]));
+    for (const error of errors) {
+      const field = error.field.replace(/^[^.[]+/, (name) => `--${flagOf[name] ?? name}`);
+      console.error(`${field}: ${error.message}`);
+    }
+    return EXIT_INVALID;
+  }
+
+  const { result, tableVersion } = calculation.run(value);
+  if (values.json) {
+    console.log(JSON.stringify({ tableVersion, calculatedAt: new Date().toISOString(), result }, null, 2));
+  } else {
+    console.log(renderTable(command.rows(result), tableVersion));
+  }
+  for (const warning of command.warnings?.(result) ?? []) console.error(`Aviso: ${warning}`);
+  return 0;
+}
+
+try {
+  process.exitCode = run(process.argv.slice(2));
+} catch (err) {
+  if (!(err instanceof UsageError)) throw err;
+  console.error(`${err.message}\n\n${usage()}`);
+  process.exitCode = EXIT_USAGE;
+}
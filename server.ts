@@ -0,0 +1,39 @@
+import express, { NextFunction, Request, Response } from 'express';
+import path from 'path';
+import { createCalculationRouter } from './server/calculationRoutes';
+import { openDatabase } from './server/db';
+import { createScenarioRouter } from './server/scenarioRoutes';
+import { createScenarioStore } from './server/scenarioStore';
+
+const PORT = Number(process.env.PORT) || 3000;
+
+async function startServer() {
+  const app = express();
+  app.use(express.json({ limit: '1mb' }));
+
+  const store = createScenarioStore(openDatabase());
+  app.use('/api/scenarios', createScenarioRouter(store));
+  app.use('/api/v1', createCalculationRouter());
+
+  app.use('/api', (err: { type?: string }, _req: Request, res: Response, next: NextFunction) => {
+    if (err.type === 'entity.parse.failed') return void res.status(400).json({ error: 'JSON inválido' });
+    next(err);
+  });
+
+  // Vite serves the client in development; the build output in production
+  if (process.env.NODE_ENV !== 'production') {
+    const { createServer } = await import('vite');
+    const vite = await createServer({ server: { middlewareMode: true }, appType: 'spa' });
+    app.use(vite.middlewares);
+  } else {
+    const dist = path.resolve('dist');
+    app.use(express.static(dist));
+    app.get('*', (_req, res) => res.sendFile(path.join(dist, 'index.html')));
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`Server running on http://localhost:${PORT}`);
+  });
+}
+
+startServer();
@@ -0,0 +1,87 @@
+import { Router } from 'express';
+import { CalculationEndpoint, CALCULATIONS } from './calculations';
+import { objectSchema, validateBody } from './fieldSpec';
+
+const API_VERSION = '1.0.0';
+
+const errorSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    fields: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { field: { type: 'string' }, message: { type: 'string' } }
+      }
+    }
+  }
+};
+
+export function buildOpenApiDocument(calculations: CalculationEndpoint[] = CALCULATIONS) {
+  const paths = Object.fromEntries(calculations.map((calculation) => [
+    `/${calculation.name}`,
+    {
+      post: {
+        operationId: calculation.name,
+        summary: calculation.summary,
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: objectSchema(calculation.fields) } }
+        },
+        responses: {
+          200: {
+            description: 'Resultado do cálculo',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/CalculationResponse' } } }
+          },
+          400: {
+            description: 'Campos inválidos',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/ValidationError' } } }
+          }
+        }
+      }
+    }
+  ]));
+
+  return {
+    openapi: '3.0.3',
+    info: { title: 'Calculadora CLT Pro API', version: API_VERSION },
+    servers: [{ url: '/api/v1' }],
+    paths,
+    components: {
+      schemas: {
+        CalculationResponse: {
+          type: 'object',
+          required: ['tableVersion', 'calculatedAt', 'result'],
+          properties: {
+            tableVersion: { type: 'string', description: 'Versão das tabelas de INSS/IRRF aplicadas' },
+            calculatedAt: { type: 'string', format: 'date-time' },
+            result: { type: 'object', description: 'Resultado do cálculo, com a memória de cálculo em trace' }
+          }
+        },
+        ValidationError: errorSchema
+      }
+    }
+  };
+}
+
+export function createCalculationRouter(calculations: CalculationEndpoint[] = CALCULATIONS): Router {
+  const router = Router();
+  const openApiDocument = buildOpenApiDocument(calculations);
+
+  router.get('/openapi.json', (_req, res) => {
+    res.json(openApiDocument);
+  });
+
+  for (const calculation of calculations) {
+    router.post(`/${calculation.name}`, (req, res) => {
+      const { value, errors } = validateBody(calculation.fields, req.body, calculation.check);
+      if (errors.length > 0) return void res.status(400).json({ error: 'Requisição inválida', fields: errors });
+
+      const { result, tableVersion } = calculation.run(value);
+      res.json({ tableVersion, calculatedAt: new Date().toISOString(), result });
+    });
+  }
+
+  return router;
+}
@@ -0,0 +1,280 @@
+import {
+  calculateOvertime,
+  calculateSalary,
+  calculateTermination,
+  calculateThirteenth,
+  calculateVacation,
+  HAZARDS,
+  TERMINATION_TYPES
+} from '../src/lib/calculator';
+import { countMonthDays } from '../src/lib/calendar';
+import { compareCltPj, PJ_REGIMES } from '../src/lib/cltVsPj';
+import { DEDUCTION_LABELS, DeductionType } from '../src/lib/deductions';
+import { calculateEmployerCost, TAX_REGIME_LABELS, TaxRegime } from '../src/lib/employerCost';
+import { simulateFgts } from '../src/lib/fgts';
+import { getTaxTable } from '../src/lib/taxTables';
+import { calculateUnemploymentInsurance } from '../src/lib/unemploymentInsurance';
+import { FieldError, Fields, FieldSpec, FieldValues, notBefore } from './fieldSpec';
+
+// Registering a calculator here exposes it as POST /api/v1/<name> and adds
+// it to the OpenAPI document. The params `run` receives are typed from the
+// `fields` spec they were validated against.
+export interface CalculationEndpoint<F extends Fields = Fields, R = unknown> {
+  name: string;
+  summary: string;
+  fields: F;
+  check?(params: FieldValues<F>): FieldError[];
+  run(params: FieldValues<F>): { result: R; tableVersion: string };
+}
+
+const calculation = <const F extends Fields, R>(endpoint: CalculationEndpoint<F, R>) => endpoint;
+
+const salary = { type: 'number', required: true, minimum: 0, description: 'Salário base mensal' } as const satisfies FieldSpec;
+const dependents = { type: 'integer', minimum: 0, default: 0, description: 'Dependentes para o IRRF' } as const satisfies FieldSpec;
+const bonuses = { type: 'number', minimum: 0, default: 0, description: 'Bônus e comissões do mês' } as const satisfies FieldSpec;
+const hazard = { type: 'string', enum: HAZARDS, default: 'none', description: 'Adicional de insalubridade ou periculosidade' } as const satisfies FieldSpec;
+const referenceDate = { type: 'date', description: 'Competência cujas tabelas se aplicam; hoje se omitida' } as const satisfies FieldSpec;
+const terminationType = { type: 'string', enum: TERMINATION_TYPES, required: true } as const satisfies FieldSpec;
+
+const deduction = {
+  type: 'object',
+  fields: {
+    type: { type: 'string', enum: Object.keys(DEDUCTION_LABELS) as DeductionType[], required: true },
+    value: { type: 'number', minimum: 0, required: true },
+    percentage: { type: 'number', minimum: 0, maximum: 100 },
+    alimonyBase: { type: 'string', enum: ['bruto', 'liquido'] }
+  }
+} as const satisfies FieldSpec;
+
+const salaryChange = {
+  type: 'object',
+  fields: {
+    from: { type: 'string', pattern: /^\d{4}-(0[1-9]|1[0-2])$/, required: true, description: 'Competência YYYY-MM' },
+    salary: { type: 'number', minimum: 0, required: true }
+  }
+} as const satisfies FieldSpec;
+
+const versionOf = (date?: Date) => getTaxTable(date ?? new Date()).version;
+
+// Pensão and the VR/VA coparticipação are charged as a percentage; without
+// one they would come out as zero
+const PERCENTAGE_DEDUCTIONS: DeductionType[] = ['pensao-alimenticia', 'vale-refeicao', 'vale-alimentacao'];
+
+export const salaryCalculation = calculation({
+  name: 'salary',
+  summary: 'Salário líquido com INSS, IRRF e descontos',
+  fields: {
+    salary,
+    dependents,
+    deductions: { type: 'array', items: deduction, default: [] },
+    referenceDate,
+    bonuses,
+    hazard
+  },
+  check: (p) => p.deductions.flatMap((item, i) =>
+    PERCENTAGE_DEDUCTIONS.includes(item.type) && item.percentage === undefined
+      ? [{ field: `deductions[${i}].percentage`, message: `é obrigatório para ${DEDUCTION_LABELS[item.type]}` }]
+      : []
+  ),
+  run: (p) => {
+    const result = calculateSalary(p.salary, p.dependents, p.deductions, p.referenceDate, p.bonuses, p.hazard);
+    return { result, tableVersion: result.tableVersion };
+  }
+});
+
+export const vacationCalculation = calculation({
+  name: 'vacation',
+  summary: 'Férias com 1/3, abono pecuniário e descontos',
+  fields: {
+    salary,
+    days: { type: 'integer', minimum: 1, maximum: 30, default: 30 },
+    sellTenDays: { type: 'boolean', default: false },
+    dependents,
+    unusedVacationDays: { type: 'number', minimum: 0, default: 0 },
+    bonuses,
+    referenceDate,
+    hazard
+  },
+  run: (p) => {
+    const result = calculateVacation(p.salary, p.days, p.sellTenDays, p.dependents, p.unusedVacationDays, p.bonuses, p.referenceDate, p.hazard);
+    return { result, tableVersion: result.tableVersion };
+  }
+});
+
+export const thirteenthCalculation = calculation({
+  name: 'thirteenth',
+  summary: '13º salário em duas parcelas',
+  fields: {
+    salary,
+    admissionDate: { type: 'date', required: true },
+    dependents,
+    variableAverage: { type: 'number', minimum: 0, default: 0 },
+    referenceDate,
+    hazard
+  },
+  run: (p) => {
+    const result = calculateThirteenth(p.salary, p.admissionDate, p.dependents, p.variableAverage, p.referenceDate, p.hazard);
+    return { result, tableVersion: result.tableVersion };
+  }
+});
+
+export const overtimeCalculation = calculation({
+  name: 'overtime',
+  summary: 'Horas extras, adicional noturno e reflexos no DSR',
+  fields: {
+    salary,
+    monthlyHours: { type: 'number', minimum: 1, default: 220 },
+    overtimeHours: { type: 'number', minimum: 0, default: 0 },
+    percentage: { type: 'number', minimum: 50, default: 50 },
+    nightClockHours: { type: 'number', minimum: 0, default: 0 },
+    workingDays: { type: 'integer', minimum: 0, description: 'Dias úteis do mês; calculado pelo calendário se omitido' },
+    restDays: { type: 'integer', minimum: 0, description: 'Domingos e feriados do mês; calculado pelo calendário se omitido' },
+    holidayOvertimeHours: { type: 'number', minimum: 0, default: 0 },
+    hazard,
+    referenceDate
+  },
+  run: (p) => {
+    const month = countMonthDays(p.referenceDate ?? new Date());
+    const result = calculateOvertime(
+      p.salary,
+      p.monthlyHours,
+      p.overtimeHours,
+      p.percentage,
+      p.nightClockHours,
+      p.workingDays ?? month.workingDays,
+      p.restDays ?? month.restDays,
+      p.holidayOvertimeHours,
+      p.hazard,
+      p.referenceDate
+    );
+    return { result, tableVersion: versionOf(p.referenceDate) };
+  }
+});
+
+export const terminationCalculation = calculation({
+  name: 'termination',
+  summary: 'Verbas rescisórias, aviso prévio e multa do FGTS',
+  fields: {
+    salary,
+    startDate: { type: 'date', required: true },
+    endDate: { type: 'date', required: true },
+    type: terminationType,
+    fgtsBalance: { type: 'number', minimum: 0, default: 0 },
+    takenPeriods: {
+      type: 'integer',
+      minimum: 0,
+      description: 'Períodos aquisitivos já gozados; se omitido, nenhum é considerado gozado e o resultado traz takenPeriodsMissing'
+    },
+    absences: { type: 'array', items: { type: 'integer', minimum: 0 }, default: [], description: 'Faltas por período aquisitivo' },
+    bonuses,
+    noticeWorked: { type: 'boolean', default: false },
+    hazard
+  },
+  check: notBefore('endDate', 'startDate', 'não pode ser anterior à data de admissão'),
+  run: (p) => {
+    const result = calculateTermination(
+      p.salary,
+      p.startDate,
+      p.endDate,
+      p.type,
+      p.fgtsBalance,
+      { takenPeriods: p.takenPeriods, absences: p.absences },
+      p.bonuses,
+      p.noticeWorked,
+      p.hazard
+    );
+    return { result, tableVersion: result.tableVersion };
+  }
+});
+
+export const unemploymentInsuranceCalculation = calculation({
+  name: 'unemployment-insurance',
+  summary: 'Elegibilidade e parcelas do seguro-desemprego',
+  fields: {
+    lastSalaries: {
+      type: 'array',
+      items: { type: 'number', minimum: 0 },
+      minItems: 1,
+      required: true,
+      description: 'Últimos salários, até três; ao menos um deve ser maior que zero'
+    },
+    monthsWorked: { type: 'integer', minimum: 0, required: true },
+    previousClaims: { type: 'integer', minimum: 0, default: 0 },
+    type: terminationType,
+    dismissalDate: { type: 'date', description: 'Data da dispensa; hoje se omitida' }
+  },
+  run: (p) => {
+    const result = calculateUnemploymentInsurance(p.lastSalaries, p.monthsWorked, p.previousClaims, p.type, p.dismissalDate);
+    return { result, tableVersion: result.tableVersion };
+  }
+});
+
+export const fgtsCalculation = calculation({
+  name: 'fgts',
+  summary: 'Saldo do FGTS reconstruído pelo histórico salarial',
+  fields: {
+    salary,
+    admissionDate: { type: 'date', required: true },
+    endDate: { type: 'date', required: true },
+    salaryHistory: { type: 'array', items: salaryChange, default: [] },
+    trRate: { type: 'number', minimum: 0, default: 0, description: 'TR mensal em %' }
+  },
+  check: notBefore('endDate', 'admissionDate', 'não pode ser anterior à data de admissão'),
+  run: (p) => ({
+    result: simulateFgts(p.salary, p.admissionDate, p.endDate, { salaryHistory: p.salaryHistory, trRate: p.trRate }),
+    tableVersion: versionOf(p.endDate)
+  })
+});
+
+export const employerCostCalculation = calculation({
+  name: 'employer-cost',
+  summary: 'Custo total do empregado para a empresa',
+  fields: {
+    grossSalary: { type: 'number', required: true, minimum: 0 },
+    regime: { type: 'string', enum: Object.keys(TAX_REGIME_LABELS) as TaxRegime[], default: 'lucro-presumido' },
+    rat: { type: 'number', minimum: 1, maximum: 3, default: 2 },
+    fap: { type: 'number', minimum: 0.5, maximum: 2, default: 1 },
+    thirdParties: { type: 'number', minimum: 0, default: 5.8 },
+    benefits: { type: 'number', minimum: 0, default: 0 }
+  },
+  run: (p) => ({
+    result: calculateEmployerCost(p.grossSalary, p),
+    tableVersion: versionOf()
+  })
+});
+
+export const cltVsPjCalculation = calculation({
+  name: 'clt-vs-pj',
+  summary: 'Comparação anual entre CLT e PJ',
+  fields: {
+    grossSalary: { type: 'number', required: true, minimum: 0 },
+    monthlyRevenue: { type: 'number', required: true, minimum: 0 },
+    regime: { type: 'string', enum: PJ_REGIMES, default: 'simples' },
+    proLabore: { type: 'number', minimum: 0 },
+    accountantCost: { type: 'number', minimum: 0, default: 0 },
+    dependents,
+    referenceDate
+  },
+  run: (p) => ({
+    result: compareCltPj(p.grossSalary, p.monthlyRevenue, {
+      regime: p.regime,
+      proLabore: p.proLabore,
+      accountantCost: p.accountantCost,
+      dependents: p.dependents,
+      referenceDate: p.referenceDate
+    }),
+    tableVersion: versionOf(p.referenceDate)
+  })
+});
+
+export const CALCULATIONS: CalculationEndpoint[] = [
+  salaryCalculation,
+  vacationCalculation,
+  thirteenthCalculation,
+  overtimeCalculation,
+  terminationCalculation,
+  unemploymentInsuranceCalculation,
+  fgtsCalculation,
+  employerCostCalculation,
+  cltVsPjCalculation
+];
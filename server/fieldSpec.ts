@@ -0,0 +1,162 @@
+import { parseLocalDate } from '../src/lib/utils';
+
+// Describes a request field once, for both validation and the OpenAPI document
+export interface FieldSpec {
+  type: 'number' | 'integer' | 'boolean' | 'string' | 'date' | 'array' | 'object';
+  description?: string;
+  required?: boolean;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  enum?: readonly string[];
+  pattern?: RegExp;
+  minItems?: number;
+  items?: FieldSpec;
+  fields?: Record<string, FieldSpec>;
+}
+
+export type Fields = Record<string, FieldSpec>;
+
+// The value validateValue returns for a spec. The plain FieldSpec, as in a
+// list of endpoints with different fields, gives unknown.
+export type FieldValue<S extends FieldSpec> =
+  FieldSpec extends S ? unknown
+  : S extends { enum: readonly (infer E)[] } ? E
+  : S extends { type: 'number' | 'integer' } ? number
+  : S extends { type: 'boolean' } ? boolean
+  : S extends { type: 'date' } ? Date
+  : S extends { type: 'array'; items: infer I extends FieldSpec } ? FieldValue<I>[]
+  : S extends { type: 'object'; fields: infer F extends Fields } ? FieldValues<F>
+  : string;
+
+// Required fields and fields with a default are always present
+type AlwaysPresent = { required: true } | { default: {} };
+
+export type FieldValues<F extends Fields> = {
+  -readonly [K in keyof F as F[K] extends AlwaysPresent ? K : never]: FieldValue<F[K]>;
+} & {
+  -readonly [K in keyof F as F[K] extends AlwaysPresent ? never : K]?: FieldValue<F[K]>;
+};
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+const DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?$/;
+
+// The pattern still lets through days the month does not have, which Date
+// would silently roll over (2024-02-31 into March)
+function parseDate(value: string): Date | null {
+  const date = parseLocalDate(value);
+  const [year, month, day = 1] = value.split('-').map(Number);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+function validateValue(spec: FieldSpec, value: unknown, path: string, errors: FieldError[]): unknown {
+  const fail = (message: string) => {
+    errors.push({ field: path, message });
+    return undefined;
+  };
+
+  switch (spec.type) {
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return fail('deve ser um número');
+      if (spec.type === 'integer' && !Number.isInteger(value)) return fail('deve ser um número inteiro');
+      if (spec.minimum !== undefined && value < spec.minimum) return fail(`deve ser maior ou igual a ${spec.minimum}`);
+      if (spec.maximum !== undefined && value > spec.maximum) return fail(`deve ser menor ou igual a ${spec.maximum}`);
+      return value;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : fail('deve ser true ou false');
+    case 'string':
+      if (typeof value !== 'string') return fail('deve ser um texto');
+      if (spec.enum && !spec.enum.includes(value)) return fail(`deve ser um de: ${spec.enum.join(', ')}`);
+      if (spec.pattern && !spec.pattern.test(value)) return fail(spec.description ? `formato inválido: ${spec.description}` : 'formato inválido');
+      return value;
+    case 'date': {
+      if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return fail('deve ser uma data YYYY-MM-DD ou YYYY-MM');
+      return parseDate(value) ?? fail('data inexistente');
+    }
+    case 'array':
+      if (!Array.isArray(value)) return fail('deve ser uma lista');
+      if (spec.minItems !== undefined && value.length < spec.minItems) return fail(`deve ter ao menos ${spec.minItems} ${spec.minItems === 1 ? 'item' : 'itens'}`);
+      return value.map((item, i) => validateValue(spec.items!, item, `${path}[${i}]`, errors));
+    case 'object':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail('deve ser um objeto');
+      return validateObject(spec.fields!, value as Record<string, unknown>, `${path}.`, errors);
+  }
+}
+
+function validateObject(fields: Fields, body: Record<string, unknown>, prefix: string, errors: FieldError[]) {
+  const result: Record<string, unknown> = {};
+  for (const [name, spec] of Object.entries(fields)) {
+    const value = body[name];
+    if (value === undefined || value === null) {
+      if (spec.required) errors.push({ field: `${prefix}${name}`, message: 'é obrigatório' });
+      else if (spec.default !== undefined) result[name] = spec.type === 'date' ? parseLocalDate(String(spec.default)) : spec.default;
+      continue;
+    }
+    result[name] = validateValue(spec, value, `${prefix}${name}`, errors);
+  }
+  for (const name of Object.keys(body)) {
+    if (!(name in fields)) errors.push({ field: `${prefix}${name}`, message: 'campo desconhecido' });
+  }
+  return result;
+}
+
+// `check` covers rules across fields, such as date order; it only runs once
+// every field is valid on its own. `value` is only complete without errors.
+export function validateBody<F extends Fields>(
+  fields: F,
+  body: unknown,
+  check?: (value: FieldValues<F>) => FieldError[]
+): { value: FieldValues<F>; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { value: {} as FieldValues<F>, errors: [{ field: '', message: 'o corpo deve ser um objeto JSON' }] };
+  }
+  const value = validateObject(fields, body as Record<string, unknown>, '', errors) as FieldValues<F>;
+  if (errors.length === 0 && check) errors.push(...check(value));
+  return { value, errors };
+}
+
+// Cross-field rule: `later` may not come before `earlier`
+export function notBefore<K extends string>(later: K, earlier: K, message: string) {
+  return (value: Record<K, Date>): FieldError[] => (value[later] < value[earlier] ? [{ field: later, message }] : []);
+}
+
+export function toJsonSchema(spec: FieldSpec): Record<string, unknown> {
+  const schema: Record<string, unknown> = {};
+  if (spec.description) schema.description = spec.description;
+  if (spec.default !== undefined) schema.default = spec.default;
+
+  switch (spec.type) {
+    case 'date':
+      return { ...schema, type: 'string', pattern: DATE_PATTERN.source, example: '2026-03-15' };
+    case 'array':
+      return { ...schema, type: 'array', items: toJsonSchema(spec.items!), ...(spec.minItems !== undefined && { minItems: spec.minItems }) };
+    case 'object':
+      return { ...schema, ...objectSchema(spec.fields!) };
+    default:
+      return {
+        ...schema,
+        type: spec.type,
+        ...(spec.minimum !== undefined && { minimum: spec.minimum }),
+        ...(spec.maximum !== undefined && { maximum: spec.maximum }),
+        ...(spec.enum && { enum: spec.enum }),
+        ...(spec.pattern && { pattern: spec.pattern.source })
+      };
+  }
+}
+
+export function objectSchema(fields: Fields): Record<string, unknown> {
+  const required = Object.entries(fields).filter(([, spec]) => spec.required).map(([name]) => name);
+  return {
+    type: 'object',
+    additionalProperties: false,
+    properties: Object.fromEntries(Object.entries(fields).map(([name, spec]) => [name, toJsonSchema(spec)])),
+    ...(required.length > 0 && { required })
+  };
+}
@@ -0,0 +1,61 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { parseScenarioDraft, parseScenarioPatch, ScenarioValidationError } from '../src/lib/scenarios';
+import { ScenarioStore } from './scenarioStore';
+
+function parseId(req: Request, res: Response): number | undefined {
+  const id = Number(req.params.id);
+  if (Number.isInteger(id) && id > 0) return id;
+  res.status(400).json({ error: 'id inválido' });
+  return undefined;
+}
+
+export function createScenarioRouter(store: ScenarioStore): Router {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    const employee = typeof req.query.employee === 'string' ? req.query.employee : undefined;
+    res.json(store.list(employee));
+  });
+
+  router.get('/:id', (req, res) => {
+    const id = parseId(req, res);
+    if (id === undefined) return;
+    const scenario = store.get(id);
+    if (!scenario) return void res.status(404).json({ error: 'Cenário não encontrado' });
+    res.json(scenario);
+  });
+
+  router.post('/', (req, res) => {
+    res.status(201).json(store.create(parseScenarioDraft(req.body)));
+  });
+
+  router.patch('/:id', (req, res) => {
+    const id = parseId(req, res);
+    if (id === undefined) return;
+    const scenario = store.update(id, parseScenarioPatch(req.body));
+    if (!scenario) return void res.status(404).json({ error: 'Cenário não encontrado' });
+    res.json(scenario);
+  });
+
+  router.post('/:id/duplicate', (req, res) => {
+    const id = parseId(req, res);
+    if (id === undefined) return;
+    const scenario = store.duplicate(id);
+    if (!scenario) return void res.status(404).json({ error: 'Cenário não encontrado' });
+    res.status(201).json(scenario);
+  });
+
+  router.delete('/:id', (req, res) => {
+    const id = parseId(req, res);
+    if (id === undefined) return;
+    if (!store.remove(id)) return void res.status(404).json({ error: 'Cenário não encontrado' });
+    res.status(204).end();
+  });
+
+  router.use((err: unknown, _req: Request, res: Response, next: NextFunction) => {
+    if (err instanceof ScenarioValidationError) return void res.status(400).json({ error: err.message });
+    next(err);
+  });
+
+  return router;
+}
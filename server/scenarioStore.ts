@@ -0,0 +1,99 @@
+import type Database from 'better-sqlite3';
+import { CalculatorInputs, Tab } from '../src/lib/inputs';
+import { Scenario, ScenarioDraft, ScenarioSummary } from '../src/lib/scenarios';
+
+interface ScenarioRow {
+  id: number;
+  name: string;
+  employee: string;
+  tab: string;
+  inputs: string;
+  result: string;
+  table_version: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScenarioStore {
+  list(employee?: string): ScenarioSummary[];
+  get(id: number): Scenario | undefined;
+  create(draft: ScenarioDraft): Scenario;
+  update(id: number, patch: Partial<Pick<ScenarioDraft, 'name' | 'employee'>>): Scenario | undefined;
+  duplicate(id: number): Scenario | undefined;
+  remove(id: number): boolean;
+}
+
+function toSummary(row: ScenarioRow): ScenarioSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    employee: row.employee,
+    tab: row.tab as Tab,
+    tableVersion: row.table_version,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function toScenario(row: ScenarioRow): Scenario {
+  return {
+    ...toSummary(row),
+    inputs: JSON.parse(row.inputs) as CalculatorInputs,
+    result: JSON.parse(row.result)
+  };
+}
+
+export function createScenarioStore(db: Database.Database): ScenarioStore {
+  const selectAll = db.prepare<[], ScenarioRow>('SELECT * FROM scenarios ORDER BY updated_at DESC, id DESC');
+  const selectByEmployee = db.prepare<[string], ScenarioRow>('SELECT * FROM scenarios WHERE employee = ? ORDER BY updated_at DESC, id DESC');
+  const selectOne = db.prepare<[number], ScenarioRow>('SELECT * FROM scenarios WHERE id = ?');
+  const insert = db.prepare(`
+    INSERT INTO scenarios (name, employee, tab, inputs, result, table_version, created_at, updated_at)
+    VALUES (@name, @employee, @tab, @inputs, @result, @table_version, @created_at, @updated_at)
+  `);
+  const updateNames = db.prepare('UPDATE scenarios SET name = @name, employee = @employee, updated_at = @updated_at WHERE id = @id');
+  const deleteOne = db.prepare('DELETE FROM scenarios WHERE id = ?');
+
+  const get = (id: number) => {
+    const row = selectOne.get(id);
+    return row ? toScenario(row) : undefined;
+  };
+
+  const create = (draft: ScenarioDraft) => {
+    const now = new Date().toISOString();
+    const { lastInsertRowid } = insert.run({
+      name: draft.name,
+      employee: draft.employee,
+      tab: draft.inputs.tab,
+      inputs: JSON.stringify(draft.inputs),
+      result: JSON.stringify(draft.result ?? null),
+      table_version: draft.tableVersion,
+      created_at: now,
+      updated_at: now
+    });
+    return get(Number(lastInsertRowid))!;
+  };
+
+  return {
+    list: (employee) => (employee === undefined ? selectAll.all() : selectByEmployee.all(employee)).map(toSummary),
+    get,
+    create,
+    update: (id, patch) => {
+      const current = get(id);
+      if (!current) return undefined;
+      updateNames.run({
+        id,
+        name: patch.name ?? current.name,
+        employee: patch.employee ?? current.employee,
+        updated_at: new Date().toISOString()
+      });
+      return get(id);
+    },
+    duplicate: (id) => {
+      const current = get(id);
+      if (!current) return undefined;
+      return create({ ...current, name: `${current.name} (cópia)` });
+    },
+    remove: (id) => deleteOne.run(id).changes > 0
+  };
+}
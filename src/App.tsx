@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { 
   Calculator, 
   Wallet, 
@@ -20,45 +20,286 @@ import {
   AlertCircle,
   ChevronDown,
   ChevronUp,
-  Gift
+  Gift,
+  Coins,
+  Moon,
+  Upload,
+  Building2,
+  ArrowLeftRight,
+  Briefcase,
+  LifeBuoy,
+  Printer,
+  Link2,
+  Check,
+  X,
+  FolderOpen,
+  Sheet,
+  Sparkles
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { cn } from './lib/utils';
+import { differenceInMonths } from 'date-fns';
+import { cn, formatHours, parseLocalDate } from './lib/utils';
 import { 
   calculateSalary, 
   calculateVacation, 
   calculateOvertime,
+  calculateThirteenth,
   calculateTermination,
+  HazardType,
   TerminationType
 } from './lib/calculator';
+import { getTaxTable, toCompetence } from './lib/taxTables';
+import { VacationPeriodStatus } from './lib/vacationPeriods';
+import { analyzeTimesheet } from './lib/timesheet';
+import { countMonthDays, isRestDay, parseHolidayList } from './lib/calendar';
+import { PayrollDeduction } from './lib/deductions';
+import { calculateEmployerCost, EmployerCostOptions, TAX_REGIME_LABELS, TaxRegime } from './lib/employerCost';
+import { compareCltPj, PjRegime } from './lib/cltVsPj';
+import { calculateAnniversaryWithdrawal, calculateFgtsRelease, SalaryChange, simulateFgts } from './lib/fgts';
+import { calculateUnemploymentInsurance } from './lib/unemploymentInsurance';
+import { buildPayslip, DocumentHeader, EMPTY_DOCUMENT_HEADER } from './lib/payslip';
+import { buildTerminationReport } from './lib/terminationReport';
+import { CalculatorInputs, defaultInputs, sanitizeInputs, Tab } from './lib/inputs';
+import { ScenarioDraft } from './lib/scenarios';
+import { buildPermalinkHash, readPermalinkHash } from './lib/permalink';
+import {
+  findSalaryForEmployerCost,
+  findSalaryForNet,
+  findSalaryForVacationNet,
+  REVERSE_TARGET_LABELS,
+  ReverseTarget
+} from './lib/reverseCalculation';
+import { applyInterpretation, createGeminiModel } from './lib/assistant';
+import TimesheetTable from './components/TimesheetTable';
+import CalculationTraceView from './components/CalculationTraceView';
+import DeductionsEditor from './components/DeductionsEditor';
+import SalaryHistoryEditor from './components/SalaryHistoryEditor';
+import PayslipDialog from './components/PayslipDialog';
+import BatchDialog from './components/BatchDialog';
+import TerminationReportDialog from './components/TerminationReportDialog';
+import ScenarioSidebar from './components/ScenarioSidebar';
+import AssistantPanel from './components/AssistantPanel';
 
-type Tab = 'salary' | 'hours' | 'vacation' | 'termination';
+const TAB_LABELS: Record<Tab, string> = {
+  salary: 'Salário',
+  hours: 'Horas',
+  vacation: 'Férias',
+  thirteenth: '13º Salário',
+  termination: 'Rescisão',
+  unemployment: 'Seguro-Desemprego',
+  employer: 'Custo Empresa',
+  compare: 'CLT x PJ'
+};
+
+const HAZARD_LABELS: Record<HazardType, string> = {
+  'none': 'Nenhum',
+  'insalubridade-minimo': 'Insalubridade grau mínimo (10%)',
+  'insalubridade-medio': 'Insalubridade grau médio (20%)',
+  'insalubridade-maximo': 'Insalubridade grau máximo (40%)',
+  'periculosidade': 'Periculosidade (30%)'
+};
+
+const VACATION_STATUS_LABELS: Record<VacationPeriodStatus, string> = {
+  'gozado': 'Gozado',
+  'vencido-simples': 'Vencido',
+  'vencido-dobro': 'Vencido em dobro',
+  'proporcional': 'Proporcional'
+};
 
 export default function App() {
-  const [activeTab, setActiveTab] = useState<Tab>('salary');
+  // A permalink in the URL restores the whole scenario
+  const [initialLink] = useState(() => readPermalinkHash(window.location.hash));
+  const [initial] = useState(() => initialLink.status === 'ok' ? initialLink.inputs : defaultInputs());
+  const [linkStatus, setLinkStatus] = useState(initialLink.status);
+  // Feedback of the last copy attempt, cleared after a moment
+  const [linkCopy, setLinkCopy] = useState<'copied' | 'failed' | null>(null);
+  const [showScenarios, setShowScenarios] = useState<boolean>(false);
+  const [showBatch, setShowBatch] = useState<boolean>(false);
+  const [showAssistant, setShowAssistant] = useState<boolean>(false);
+  // Injected by Vite; without a key the assistant panel only explains how to set it
+  const [assistantModel] = useState(() => process.env.GEMINI_API_KEY ? createGeminiModel(process.env.GEMINI_API_KEY) : null);
+
+  const [activeTab, setActiveTab] = useState<Tab>(initial.tab);
+  const [competence, setCompetence] = useState<string>(initial.competence);
 
   // Salary State
-  const [grossSalary, setGrossSalary] = useState<number | string>(3500);
-  const [dependents, setDependents] = useState<number | string>(0);
-  const [otherDiscounts, setOtherDiscounts] = useState<number | string>(0);
-  const [bonuses, setBonuses] = useState<number | string>(0);
+  const [grossSalary, setGrossSalary] = useState<number | string>(initial.grossSalary);
+  const [dependents, setDependents] = useState<number | string>(initial.dependents);
+  const [deductions, setDeductions] = useState<PayrollDeduction[]>(initial.deductions);
+  const [bonuses, setBonuses] = useState<number | string>(initial.bonuses);
+  const [hazard, setHazard] = useState<HazardType>(initial.hazard);
   const [showTaxDetails, setShowTaxDetails] = useState(false);
 
+  // Reverse calculation: while on, the gross salary follows from a desired value
+  const [reverseMode, setReverseMode] = useState<boolean>(false);
+  const [reverseTarget, setReverseTarget] = useState<ReverseTarget>('net-salary');
+  const [reverseValue, setReverseValue] = useState<number | string>('');
+
   // Hours State
-  const [monthlyHours, setMonthlyHours] = useState<number | string>(220);
-  const [overtimeHours, setOvertimeHours] = useState<number | string>(10);
-  const [overtimePercent, setOvertimePercent] = useState<number>(50);
+  const [monthlyHours, setMonthlyHours] = useState<number | string>(initial.monthlyHours);
+  const [overtimeHours, setOvertimeHours] = useState<number | string>(initial.overtimeHours);
+  const [overtimePercent, setOvertimePercent] = useState<number>(initial.overtimePercent);
+  const [nightHours, setNightHours] = useState<number | string>(initial.nightHours);
+  const [localHolidays, setLocalHolidays] = useState<string>(initial.localHolidays);
+  const [timesheetText, setTimesheetText] = useState<string | null>(null);
+  const [timesheetName, setTimesheetName] = useState<string>('');
+  // Empty uses the daily limit derived from the monthly workload
+  const [timesheetDailyHours, setTimesheetDailyHours] = useState<number | string>('');
 
   // Vacation State
-  const [vacationDays, setVacationDays] = useState<number>(30);
-  const [sellTenDays, setSellTenDays] = useState<boolean>(false);
-  const [unusedVacationDays, setUnusedVacationDays] = useState<number | string>(0);
+  const [vacationDays, setVacationDays] = useState<number>(initial.vacationDays);
+  const [sellTenDays, setSellTenDays] = useState<boolean>(initial.sellTenDays);
+  const [unusedVacationDays, setUnusedVacationDays] = useState<number | string>(initial.unusedVacationDays);
+
+  // Thirteenth State
+  const [variableAverage, setVariableAverage] = useState<number | string>(initial.variableAverage);
+
+  // Employer Cost State
+  const [taxRegime, setTaxRegime] = useState<TaxRegime>(initial.taxRegime);
+  const [ratRate, setRatRate] = useState<number>(initial.ratRate);
+  const [fap, setFap] = useState<number | string>(initial.fap);
+  const [thirdPartiesRate, setThirdPartiesRate] = useState<number | string>(initial.thirdPartiesRate);
+  const [employerBenefits, setEmployerBenefits] = useState<number | string>(initial.employerBenefits);
+
+  // CLT x PJ State
+  const [pjRevenue, setPjRevenue] = useState<number | string>(initial.pjRevenue);
+  const [pjRegime, setPjRegime] = useState<PjRegime>(initial.pjRegime);
+  const [proLabore, setProLabore] = useState<number | string>(initial.proLabore);
+  const [accountantCost, setAccountantCost] = useState<number | string>(initial.accountantCost);
 
   // Termination State
-  const [terminationType, setTerminationType] = useState<TerminationType>('sem-justa-causa');
-  const [startDate, setStartDate] = useState<string>('2023-01-01');
-  const [endDate, setEndDate] = useState<string>(new Date().toISOString().split('T')[0]);
-  const [fgtsBalance, setFgtsBalance] = useState<number | string>(5000);
+  const [terminationType, setTerminationType] = useState<TerminationType>(initial.terminationType);
+  const [startDate, setStartDate] = useState<string>(initial.startDate);
+  const [endDate, setEndDate] = useState<string>(initial.endDate);
+  const [fgtsBalance, setFgtsBalance] = useState<number | string>(initial.fgtsBalance);
+  const [simulateFgtsBalance, setSimulateFgtsBalance] = useState<boolean>(initial.simulateFgtsBalance);
+  const [salaryHistory, setSalaryHistory] = useState<SalaryChange[]>(initial.salaryHistory);
+  const [anniversaryWithdrawal, setAnniversaryWithdrawal] = useState<boolean>(initial.anniversaryWithdrawal);
+  const [noticeWorked, setNoticeWorked] = useState<boolean>(initial.noticeWorked);
+  const [takenVacationPeriods, setTakenVacationPeriods] = useState<number | string>(initial.takenVacationPeriods);
+  const [periodAbsences, setPeriodAbsences] = useState<number[]>(initial.periodAbsences);
+
+  // Unemployment Insurance State
+  const [lastSalaries, setLastSalaries] = useState<(number | string)[]>(initial.lastSalaries);
+  const [monthsWorked, setMonthsWorked] = useState<number | string>(initial.monthsWorked);
+  const [previousClaims, setPreviousClaims] = useState<number>(initial.previousClaims);
+
+  // Documents State
+  const [documentHeader, setDocumentHeader] = useState<DocumentHeader>(EMPTY_DOCUMENT_HEADER);
+  const [showPayslip, setShowPayslip] = useState<boolean>(false);
+  const [showTerminationReport, setShowTerminationReport] = useState<boolean>(false);
+
+  const currentInputs: CalculatorInputs = {
+    tab: activeTab,
+    competence,
+    grossSalary,
+    dependents,
+    deductions,
+    bonuses,
+    hazard,
+    monthlyHours,
+    overtimeHours,
+    overtimePercent,
+    nightHours,
+    localHolidays,
+    vacationDays,
+    sellTenDays,
+    unusedVacationDays,
+    variableAverage,
+    taxRegime,
+    ratRate,
+    fap,
+    thirdPartiesRate,
+    employerBenefits,
+    pjRevenue,
+    pjRegime,
+    proLabore,
+    accountantCost,
+    terminationType,
+    startDate,
+    endDate,
+    fgtsBalance,
+    simulateFgtsBalance,
+    salaryHistory,
+    anniversaryWithdrawal,
+    noticeWorked,
+    takenVacationPeriods,
+    periodAbsences,
+    lastSalaries,
+    monthsWorked,
+    previousClaims
+  };
+
+  const applyInputs = (inputs: CalculatorInputs) => {
+    // A loaded scenario brings its own salary
+    setReverseMode(false);
+    setActiveTab(inputs.tab);
+    setCompetence(inputs.competence);
+    setGrossSalary(inputs.grossSalary);
+    setDependents(inputs.dependents);
+    setDeductions(inputs.deductions);
+    setBonuses(inputs.bonuses);
+    setHazard(inputs.hazard);
+    setMonthlyHours(inputs.monthlyHours);
+    setOvertimeHours(inputs.overtimeHours);
+    setOvertimePercent(inputs.overtimePercent);
+    setNightHours(inputs.nightHours);
+    setLocalHolidays(inputs.localHolidays);
+    setVacationDays(inputs.vacationDays);
+    setSellTenDays(inputs.sellTenDays);
+    setUnusedVacationDays(inputs.unusedVacationDays);
+    setVariableAverage(inputs.variableAverage);
+    setTaxRegime(inputs.taxRegime);
+    setRatRate(inputs.ratRate);
+    setFap(inputs.fap);
+    setThirdPartiesRate(inputs.thirdPartiesRate);
+    setEmployerBenefits(inputs.employerBenefits);
+    setPjRevenue(inputs.pjRevenue);
+    setPjRegime(inputs.pjRegime);
+    setProLabore(inputs.proLabore);
+    setAccountantCost(inputs.accountantCost);
+    setTerminationType(inputs.terminationType);
+    setStartDate(inputs.startDate);
+    setEndDate(inputs.endDate);
+    setFgtsBalance(inputs.fgtsBalance);
+    setSimulateFgtsBalance(inputs.simulateFgtsBalance);
+    setSalaryHistory(inputs.salaryHistory);
+    setAnniversaryWithdrawal(inputs.anniversaryWithdrawal);
+    setNoticeWorked(inputs.noticeWorked);
+    setTakenVacationPeriods(inputs.takenVacationPeriods);
+    setPeriodAbsences(inputs.periodAbsences);
+    setLastSalaries(inputs.lastSalaries);
+    setMonthsWorked(inputs.monthsWorked);
+    setPreviousClaims(inputs.previousClaims);
+  };
+
+  // replaceState does not fire hashchange, so only links pasted into the
+  // address bar are applied here
+  const permalinkHash = buildPermalinkHash(currentInputs);
+  useEffect(() => {
+    window.history.replaceState(null, '', permalinkHash);
+  }, [permalinkHash]);
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      const link = readPermalinkHash(window.location.hash);
+      if (link.status === 'ok') applyInputs(link.inputs);
+      setLinkStatus(link.status);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const handleCopyLink = async () => {
+    // The clipboard is refused without permission or outside a secure context
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopy('copied');
+    } catch {
+      setLinkCopy('failed');
+    }
+    setTimeout(() => setLinkCopy(null), 2000);
+  };
 
   // Validation Helpers
   const parseSafe = (val: number | string) => {
@@ -66,38 +307,197 @@ export default function App() {
     return isNaN(n) || n < 0 ? 0 : n;
   };
 
+  const referenceDate = useMemo(() => parseLocalDate(competence), [competence]);
+
   const salaryResult = useMemo(() => 
-    calculateSalary(parseSafe(grossSalary) + parseSafe(bonuses), parseSafe(dependents), parseSafe(otherDiscounts)), 
-    [grossSalary, dependents, otherDiscounts, bonuses]
+    calculateSalary(
+      parseSafe(grossSalary), 
+      parseSafe(dependents), 
+      deductions, 
+      referenceDate,
+      parseSafe(bonuses),
+      hazard
+    ), 
+    [grossSalary, dependents, deductions, bonuses, referenceDate, hazard]
   );
   
+  const customHolidays = useMemo(() => parseHolidayList(localHolidays), [localHolidays]);
+  const monthDays = useMemo(() => countMonthDays(referenceDate, customHolidays), [referenceDate, customHolidays]);
+
+  const timesheet = useMemo(() => 
+    timesheetText === null ? null : analyzeTimesheet(timesheetText, parseSafe(monthlyHours) || 1, {
+      isRestDay: (date) => isRestDay(date, customHolidays),
+      dailyHours: parseSafe(timesheetDailyHours) || undefined
+    }), 
+    [timesheetText, monthlyHours, timesheetDailyHours, customHolidays]
+  );
+
+  // An imported timesheet replaces the manual overtime and night inputs
   const hoursResult = useMemo(() => 
-    calculateOvertime(parseSafe(grossSalary), parseSafe(monthlyHours) || 1, parseSafe(overtimeHours), overtimePercent), 
-    [grossSalary, monthlyHours, overtimeHours, overtimePercent]
+    calculateOvertime(
+      parseSafe(grossSalary), 
+      parseSafe(monthlyHours) || 1, 
+      timesheet ? timesheet.overtime50 : parseSafe(overtimeHours), 
+      timesheet ? 50 : overtimePercent,
+      timesheet ? timesheet.nightHours : parseSafe(nightHours),
+      monthDays.workingDays,
+      monthDays.restDays,
+      timesheet ? timesheet.overtime100 : 0,
+      hazard,
+      referenceDate
+    ), 
+    [grossSalary, monthlyHours, overtimeHours, overtimePercent, nightHours, monthDays, timesheet, hazard, referenceDate]
   );
   
   const vacationResult = useMemo(() => 
-    calculateVacation(parseSafe(grossSalary), vacationDays, sellTenDays, parseSafe(dependents), parseSafe(unusedVacationDays), parseSafe(bonuses)), 
-    [grossSalary, vacationDays, sellTenDays, dependents, unusedVacationDays, bonuses]
+    calculateVacation(parseSafe(grossSalary), vacationDays, sellTenDays, parseSafe(dependents), parseSafe(unusedVacationDays), parseSafe(bonuses), referenceDate, hazard), 
+    [grossSalary, vacationDays, sellTenDays, dependents, unusedVacationDays, bonuses, referenceDate, hazard]
+  );
+
+  const thirteenthResult = useMemo(() => 
+    calculateThirteenth(parseSafe(grossSalary), parseLocalDate(startDate), parseSafe(dependents), parseSafe(variableAverage), referenceDate, hazard), 
+    [grossSalary, startDate, dependents, variableAverage, referenceDate, hazard]
+  );
+
+  // The simulated balance takes the salary with bonuses and premiums as the
+  // one in force since admission, unless the history says otherwise
+  const fgtsSimulation = useMemo(() => 
+    simulateFgts(salaryResult.grossSalary, parseLocalDate(startDate), parseLocalDate(endDate), { salaryHistory }), 
+    [salaryResult.grossSalary, startDate, endDate, salaryHistory]
   );
 
+  const effectiveFgtsBalance = simulateFgtsBalance ? fgtsSimulation.balance : parseSafe(fgtsBalance);
+
   const terminationResult = useMemo(() => 
     calculateTermination(
       parseSafe(grossSalary), 
-      new Date(startDate), 
-      new Date(endDate), 
+      parseLocalDate(startDate), 
+      parseLocalDate(endDate), 
       terminationType, 
-      parseSafe(fgtsBalance),
-      parseSafe(unusedVacationDays),
-      parseSafe(bonuses)
+      effectiveFgtsBalance,
+      { takenPeriods: takenVacationPeriods === '' ? undefined : parseSafe(takenVacationPeriods), absences: periodAbsences },
+      parseSafe(bonuses),
+      noticeWorked,
+      hazard
+    ), 
+    [grossSalary, startDate, endDate, terminationType, effectiveFgtsBalance, takenVacationPeriods, periodAbsences, bonuses, noticeWorked, hazard]
+  );
+
+  const fgtsRelease = calculateFgtsRelease(
+    effectiveFgtsBalance + terminationResult.fgtsDeposit,
+    terminationResult.fgtsFine ?? 0,
+    terminationType,
+    anniversaryWithdrawal
+  );
+  const anniversaryResult = calculateAnniversaryWithdrawal(effectiveFgtsBalance);
+
+  // Blank salaries repeat the current gross; blank months come from the
+  // contract, indemnified notice included
+  const contractMonths = Math.min(36, differenceInMonths(terminationResult.projectedEndDate, parseLocalDate(startDate)));
+  const unemploymentResult = useMemo(() => 
+    calculateUnemploymentInsurance(
+      lastSalaries.map((salary) => salary === '' ? salaryResult.grossSalary : parseSafe(salary)),
+      monthsWorked === '' ? contractMonths : parseSafe(monthsWorked),
+      previousClaims,
+      terminationType,
+      parseLocalDate(endDate)
     ), 
-    [grossSalary, startDate, endDate, terminationType, fgtsBalance, unusedVacationDays, bonuses]
+    [lastSalaries, salaryResult.grossSalary, monthsWorked, contractMonths, previousClaims, terminationType, endDate]
+  );
+
+  const employerCostOptions = useMemo((): EmployerCostOptions => ({
+    regime: taxRegime,
+    rat: ratRate,
+    fap: parseSafe(fap),
+    thirdParties: parseSafe(thirdPartiesRate),
+    benefits: parseSafe(employerBenefits)
+  }), [taxRegime, ratRate, fap, thirdPartiesRate, employerBenefits]);
+
+  const employerCostResult = useMemo(() => 
+    calculateEmployerCost(salaryResult.grossSalary, employerCostOptions), 
+    [salaryResult.grossSalary, employerCostOptions]
+  );
+
+  const reverseSolution = useMemo(() => {
+    if (!reverseMode || reverseValue === '') return null;
+    const target = parseSafe(reverseValue);
+    switch (reverseTarget) {
+      case 'employer-cost':
+        return findSalaryForEmployerCost(target, employerCostOptions, parseSafe(bonuses), hazard, referenceDate);
+      case 'vacation-net':
+        return findSalaryForVacationNet(target, vacationDays, sellTenDays, parseSafe(dependents), parseSafe(unusedVacationDays), parseSafe(bonuses), referenceDate, hazard);
+      default:
+        return findSalaryForNet(target, parseSafe(dependents), deductions, referenceDate, parseSafe(bonuses), hazard);
+    }
+  }, [reverseMode, reverseValue, reverseTarget, employerCostOptions, vacationDays, sellTenDays, dependents, unusedVacationDays, deductions, bonuses, hazard, referenceDate]);
+
+  // The solver does not read the gross salary, so this cannot loop
+  useEffect(() => {
+    if (reverseSolution) setGrossSalary(reverseSolution.salary);
+  }, [reverseSolution]);
+
+  // Starts from the value the current salary gives, so switching targets
+  // keeps the salary where it is
+  const currentReverseValue = (target: ReverseTarget): number =>
+    target === 'employer-cost' ? employerCostResult.monthlyTotal :
+    target === 'vacation-net' ? vacationResult.netTotal :
+    salaryResult.netSalary;
+
+  const comparisonResult = useMemo(() => 
+    compareCltPj(parseSafe(grossSalary), parseSafe(pjRevenue), {
+      regime: pjRegime,
+      proLabore: proLabore === '' ? undefined : parseSafe(proLabore),
+      accountantCost: parseSafe(accountantCost),
+      dependents: parseSafe(dependents),
+      referenceDate
+    }), 
+    [grossSalary, pjRevenue, pjRegime, proLabore, accountantCost, dependents, referenceDate]
   );
 
+  const activeTable = getTaxTable(
+    activeTab === 'termination' || activeTab === 'unemployment' ? parseLocalDate(endDate) :
+    activeTab === 'thirteenth' ? new Date(referenceDate.getFullYear(), 11, 1) :
+    referenceDate
+  );
+
+  const results: Record<Tab, unknown> = {
+    salary: salaryResult,
+    hours: hoursResult,
+    vacation: vacationResult,
+    thirteenth: thirteenthResult,
+    termination: terminationResult,
+    unemployment: unemploymentResult,
+    employer: employerCostResult,
+    compare: comparisonResult
+  };
+
+  const buildScenarioDraft = (name: string, employee: string): ScenarioDraft =>
+    ({ name, employee, inputs: currentInputs, result: results[activeTab], tableVersion: activeTable.version });
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(value);
   };
 
+  const handlePeriodAbsences = (index: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const next = [...periodAbsences];
+    next[index] = parseSafe(e.target.value);
+    setPeriodAbsences(next);
+  };
+
+  const handleLastSalary = (index: number) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const next = [...lastSalaries];
+    next[index] = e.target.value === '' ? '' : parseSafe(e.target.value);
+    setLastSalaries(next);
+  };
+
+  const handleTimesheetUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setTimesheetText(await file.text());
+    setTimesheetName(file.name);
+    e.target.value = '';
+  };
+
   const handleNumberInput = (setter: (val: number | string) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
     const val = e.target.value;
     if (val === '') {
@@ -120,8 +520,8 @@ export default function App() {
             <h1 className="font-bold text-lg tracking-tight hidden md:block">Calculadora CLT Pro</h1>
             <h1 className="font-bold text-lg tracking-tight md:hidden">CLT Pro</h1>
           </div>
-          <nav className="flex gap-1 bg-stone-100 p-1 rounded-xl overflow-x-auto no-scrollbar mask-fade-right">
-            {(['salary', 'hours', 'vacation', 'termination'] as Tab[]).map((tab) => (
+          <nav className="flex-1 min-w-0 flex gap-1 bg-stone-100 p-1 rounded-xl overflow-x-auto no-scrollbar mask-fade-right">
+            {(Object.keys(TAB_LABELS) as Tab[]).map((tab) => (
               <button
                 key={tab}
                 onClick={() => setActiveTab(tab)}
@@ -132,13 +532,65 @@ export default function App() {
                     : "text-stone-500 hover:text-stone-800"
                 )}
               >
-                {tab === 'salary' ? 'Salário' : tab === 'hours' ? 'Horas' : tab === 'vacation' ? 'Férias' : 'Rescisão'}
+                {TAB_LABELS[tab]}
               </button>
             ))}
           </nav>
+          <button
+            onClick={() => setShowAssistant(true)}
+            className="shrink-0 flex items-center gap-2 px-3 py-2 rounded-xl text-xs sm:text-sm font-medium text-stone-500 hover:text-emerald-700 hover:bg-stone-100 transition-colors"
+            title="Descrever o cálculo em texto livre"
+          >
+            <Sparkles className="w-4 h-4" />
+            <span className="hidden lg:inline">Assistente</span>
+          </button>
+          <button
+            onClick={() => setShowScenarios(true)}
+            className="shrink-0 flex items-center gap-2 px-3 py-2 rounded-xl text-xs sm:text-sm font-medium text-stone-500 hover:text-emerald-700 hover:bg-stone-100 transition-colors"
+            title="Cenários salvos"
+          >
+            <FolderOpen className="w-4 h-4" />
+            <span className="hidden lg:inline">Cenários</span>
+          </button>
+          <button
+            onClick={() => setShowBatch(true)}
+            className="shrink-0 flex items-center gap-2 px-3 py-2 rounded-xl text-xs sm:text-sm font-medium text-stone-500 hover:text-emerald-700 hover:bg-stone-100 transition-colors"
+            title="Processar planilha de empregados"
+          >
+            <Sheet className="w-4 h-4" />
+            <span className="hidden lg:inline">Lote</span>
+          </button>
+          <button
+            onClick={handleCopyLink}
+            className="shrink-0 flex items-center gap-2 px-3 py-2 rounded-xl text-xs sm:text-sm font-medium text-stone-500 hover:text-emerald-700 hover:bg-stone-100 transition-colors"
+            title={linkCopy === 'failed' ? 'Não foi possível copiar; copie o link pela barra de endereço' : 'Copiar link do cenário'}
+          >
+            {linkCopy === 'copied' && <Check className="w-4 h-4 text-emerald-600" />}
+            {linkCopy === 'failed' && <AlertCircle className="w-4 h-4 text-red-500" />}
+            {linkCopy === null && <Link2 className="w-4 h-4" />}
+            <span className="hidden lg:inline">
+              {linkCopy === 'copied' ? 'Copiado' : linkCopy === 'failed' ? 'Falha ao copiar' : 'Copiar link'}
+            </span>
+          </button>
         </div>
       </header>
 
+      {(linkStatus === 'invalid' || linkStatus === 'unsupported') && (
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 pt-4">
+          <div className="p-4 bg-amber-50 border border-amber-200 rounded-2xl text-xs sm:text-sm text-amber-800 font-medium flex items-center gap-3">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            <span className="flex-1">
+              {linkStatus === 'unsupported' 
+                ? 'Este link foi gerado por uma versão não suportada da calculadora. Os valores padrão foram carregados.' 
+                : 'Não foi possível ler o link compartilhado. Os valores padrão foram carregados.'}
+            </span>
+            <button onClick={() => setLinkStatus('empty')} className="p-1 hover:text-amber-950 transition-colors" aria-label="Fechar aviso">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
       <main className="max-w-6xl mx-auto px-4 sm:px-6 py-6 sm:py-12">
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 sm:gap-8">
           
@@ -159,16 +611,33 @@ export default function App() {
                       min="0"
                       value={grossSalary}
                       onChange={handleNumberInput(setGrossSalary)}
+                      disabled={reverseMode}
                       className={cn(
-                        "w-full pl-10 pr-4 py-2.5 bg-stone-50 border rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium",
+                        "w-full pl-10 pr-4 py-2.5 bg-stone-50 border rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium disabled:text-stone-500",
                         grossSalary === '' ? "border-red-300 bg-red-50" : "border-stone-200"
                       )}
                       placeholder="0,00"
                     />
                   </div>
                   {grossSalary === '' && <p className="text-[10px] text-red-500 mt-1 font-medium flex items-center gap-1"><AlertCircle className="w-3 h-3" /> Campo obrigatório</p>}
+                  {reverseMode && <p className="text-[10px] text-stone-400 mt-1 font-medium">Calculado a partir do valor desejado na aba Salário</p>}
                 </div>
 
+                {activeTab !== 'termination' && activeTab !== 'unemployment' && (
+                  <div>
+                    <label className="block text-sm font-medium text-stone-700 mb-1.5">Competência</label>
+                    <div className="relative">
+                      <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
+                      <input 
+                        type="month" 
+                        value={competence}
+                        onChange={(e) => e.target.value && setCompetence(e.target.value)}
+                        className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium text-sm"
+                      />
+                    </div>
+                  </div>
+                )}
+
                 <AnimatePresence mode="wait">
                   {activeTab === 'salary' && (
                     <motion.div 
@@ -178,6 +647,76 @@ export default function App() {
                       exit={{ opacity: 0, y: -10 }}
                       className="space-y-5"
                     >
+                      <div className="p-4 bg-stone-50 rounded-xl border border-stone-200 space-y-4">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="text-sm font-semibold">Cálculo Reverso</p>
+                            <p className="text-xs text-stone-500">Encontrar o bruto para um valor desejado</p>
+                          </div>
+                          <button 
+                            onClick={() => {
+                              if (!reverseMode) setReverseValue(currentReverseValue(reverseTarget));
+                              setReverseMode(!reverseMode);
+                            }}
+                            className={cn(
+                              "w-12 h-6 rounded-full transition-colors relative",
+                              reverseMode ? "bg-emerald-600" : "bg-stone-300"
+                            )}
+                          >
+                            <div className={cn(
+                              "absolute top-1 w-4 h-4 bg-white rounded-full transition-all",
+                              reverseMode ? "left-7" : "left-1"
+                            )} />
+                          </button>
+                        </div>
+                        {reverseMode && (
+                          <>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                              <select 
+                                value={reverseTarget}
+                                onChange={(e) => {
+                                  const target = e.target.value as ReverseTarget;
+                                  setReverseTarget(target);
+                                  setReverseValue(currentReverseValue(target));
+                                }}
+                                className="w-full px-3 py-2.5 bg-white border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium text-sm appearance-none"
+                              >
+                                {(Object.keys(REVERSE_TARGET_LABELS) as ReverseTarget[]).map((target) => (
+                                  <option key={target} value={target}>{REVERSE_TARGET_LABELS[target]}</option>
+                                ))}
+                              </select>
+                              <div className="relative">
+                                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 font-medium text-sm">R$</span>
+                                <input 
+                                  type="number" 
+                                  min="0"
+                                  step="0.01"
+                                  value={reverseValue}
+                                  onChange={handleNumberInput(setReverseValue)}
+                                  className="w-full pl-10 pr-4 py-2.5 bg-white border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium text-sm"
+                                  placeholder="0,00"
+                                />
+                              </div>
+                            </div>
+                            {reverseSolution && (
+                              <div className="flex justify-between items-center text-sm">
+                                <span className="text-stone-500">Salário bruto necessário</span>
+                                <span className="font-mono font-bold text-emerald-700">{formatCurrency(reverseSolution.salary)}</span>
+                              </div>
+                            )}
+                            {reverseSolution && !reverseSolution.exact && (
+                              <p className="text-[10px] text-amber-700 font-medium flex items-center gap-1">
+                                <AlertCircle className="w-3 h-3 shrink-0" /> Nenhum bruto chega exatamente ao valor pedido por causa dos arredondamentos; o mais próximo resulta em {formatCurrency(reverseSolution.achieved)}.
+                              </p>
+                            )}
+                            {reverseTarget !== 'net-salary' && (
+                              <p className="text-[10px] text-stone-400 font-medium">
+                                {reverseTarget === 'employer-cost' ? 'Usa o regime e os encargos da aba Custo Empresa.' : 'Usa os dias, o abono e as férias vencidas da aba Férias.'}
+                              </p>
+                            )}
+                          </>
+                        )}
+                      </div>
                       <div>
                         <label className="block text-sm font-medium text-stone-700 mb-1.5">Dependentes</label>
                         <div className="relative">
@@ -206,17 +745,26 @@ export default function App() {
                         </div>
                       </div>
                       <div>
-                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Outros Descontos</label>
+                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Adicional de Insalubridade/Periculosidade</label>
                         <div className="relative">
-                          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 font-medium">R$</span>
-                          <input 
-                            type="number" 
-                            min="0"
-                            value={otherDiscounts}
-                            onChange={handleNumberInput(setOtherDiscounts)}
-                            className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium"
-                          />
+                          <AlertCircle className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
+                          <select 
+                            value={hazard}
+                            onChange={(e) => setHazard(e.target.value as HazardType)}
+                            className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium appearance-none"
+                          >
+                            {(Object.keys(HAZARD_LABELS) as HazardType[]).map((type) => (
+                              <option key={type} value={type}>{HAZARD_LABELS[type]}</option>
+                            ))}
+                          </select>
                         </div>
+                        {hazard.startsWith('insalubridade') && (
+                          <p className="text-[10px] text-stone-400 mt-1 font-medium">Calculado sobre o salário mínimo de {formatCurrency(activeTable.minimumWage)}</p>
+                        )}
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Descontos em Folha</label>
+                        <DeductionsEditor deductions={deductions} onChange={setDeductions} />
                       </div>
                     </motion.div>
                   )}
@@ -246,32 +794,100 @@ export default function App() {
                         </div>
                         {monthlyHours === '' && <p className="text-[10px] text-red-500 mt-1 font-medium flex items-center gap-1"><AlertCircle className="w-3 h-3" /> Campo obrigatório</p>}
                       </div>
+                      {timesheet ? (
+                        <div className="p-4 bg-stone-50 rounded-xl border border-stone-200 space-y-2">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="text-sm font-semibold truncate">{timesheetName}</p>
+                            <button
+                              onClick={() => { setTimesheetText(null); setTimesheetName(''); }}
+                              className="text-xs font-medium text-red-500 hover:text-red-700 shrink-0"
+                            >
+                              Remover
+                            </button>
+                          </div>
+                          <p className="text-xs text-stone-500">
+                            HE 50%: {formatHours(timesheet.overtime50)} · HE 100%: {formatHours(timesheet.overtime100)} · Noturnas: {formatHours(timesheet.nightHours)}
+                          </p>
+                          <div className="flex items-center justify-between gap-2">
+                            <label className="text-xs text-stone-500">Jornada diária contratual (horas)</label>
+                            <input
+                              type="number"
+                              min="1"
+                              max="24"
+                              step="0.5"
+                              value={timesheetDailyHours}
+                              onChange={handleNumberInput(setTimesheetDailyHours)}
+                              placeholder={String(Number(timesheet.dailyHours.toFixed(2)))}
+                              className="w-20 px-2 py-1 bg-white border border-stone-200 rounded-lg focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium text-xs text-right"
+                            />
+                          </div>
+                        </div>
+                      ) : (
+                        <>
+                        <div>
+                          <label className="block text-sm font-medium text-stone-700 mb-1.5">Horas Extras Realizadas</label>
+                          <div className="relative">
+                            <TrendingUp className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
+                            <input 
+                              type="number" 
+                              min="0"
+                              value={overtimeHours}
+                              onChange={handleNumberInput(setOvertimeHours)}
+                              className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium"
+                            />
+                          </div>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-stone-700 mb-1.5">Porcentagem Hora Extra</label>
+                          <div className="relative">
+                            <Percent className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
+                            <select 
+                              value={overtimePercent}
+                              onChange={(e) => setOvertimePercent(Number(e.target.value))}
+                              className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium appearance-none"
+                            >
+                              <option value={50}>50% (Dias úteis)</option>
+                              <option value={100}>100% (Domingos e feriados)</option>
+                            </select>
+                          </div>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-stone-700 mb-1.5">Horas Noturnas (22h às 5h)</label>
+                          <div className="relative">
+                            <Moon className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
+                            <input 
+                              type="number" 
+                              min="0"
+                              value={nightHours}
+                              onChange={handleNumberInput(setNightHours)}
+                              className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium"
+                              placeholder="Horas de relógio"
+                            />
+                          </div>
+                        </div>
+                        </>
+                      )}
+                      <label className="flex items-center justify-center gap-2 p-3 bg-stone-50 border border-dashed border-stone-300 rounded-xl text-sm font-medium text-stone-500 hover:border-emerald-500 hover:text-emerald-700 cursor-pointer transition-colors">
+                        <Upload className="w-4 h-4" />
+                        {timesheet ? 'Substituir Folha de Ponto' : 'Importar Folha de Ponto (CSV)'}
+                        <input type="file" accept=".csv,text/csv" onChange={handleTimesheetUpload} className="hidden" />
+                      </label>
                       <div>
-                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Horas Extras Realizadas</label>
+                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Feriados Estaduais/Municipais</label>
                         <div className="relative">
-                          <TrendingUp className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
+                          <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
                           <input 
-                            type="number" 
-                            min="0"
-                            value={overtimeHours}
-                            onChange={handleNumberInput(setOvertimeHours)}
+                            type="text" 
+                            value={localHolidays}
+                            onChange={(e) => setLocalHolidays(e.target.value)}
                             className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium"
+                            placeholder="Ex.: 25/01, 09/07"
                           />
                         </div>
-                      </div>
-                      <div>
-                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Porcentagem Hora Extra</label>
-                        <div className="relative">
-                          <Percent className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
-                          <select 
-                            value={overtimePercent}
-                            onChange={(e) => setOvertimePercent(Number(e.target.value))}
-                            className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium appearance-none"
-                          >
-                            <option value={50}>50% (Dias úteis)</option>
-                            <option value={100}>100% (Domingos e feriados)</option>
-                          </select>
-                        </div>
+                        <p className="text-[10px] text-stone-400 mt-1 font-medium">
+                          {monthDays.workingDays} dias úteis · {monthDays.restDays} domingos e feriados no mês
+                          {monthDays.holidays.length > 0 && ` (${monthDays.holidays.map((h) => `${h.date.getDate()} ${h.name}`).join(', ')})`}
+                        </p>
                       </div>
                     </motion.div>
                   )}
@@ -335,6 +951,247 @@ export default function App() {
                     </motion.div>
                   )}
 
+                  {activeTab === 'thirteenth' && (
+                    <motion.div 
+                      key="thirteenth-inputs"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -10 }}
+                      className="space-y-5"
+                    >
+                      <div>
+                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Data de Admissão</label>
+                        <input 
+                          type="date" 
+                          value={startDate}
+                          onChange={(e) => setStartDate(e.target.value)}
+                          className="w-full px-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium text-sm"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Média de Variáveis (HE, comissões)</label>
+                        <div className="relative">
+                          <TrendingUp className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
+                          <input 
+                            type="number" 
+                            min="0"
+                            value={variableAverage}
+                            onChange={handleNumberInput(setVariableAverage)}
+                            className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium"
+                            placeholder="0,00"
+                          />
+                        </div>
+                      </div>
+                    </motion.div>
+                  )}
+
+                  {activeTab === 'employer' && (
+                    <motion.div 
+                      key="employer-inputs"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -10 }}
+                      className="space-y-5"
+                    >
+                      <div>
+                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Regime Tributário</label>
+                        <div className="relative">
+                          <Building2 className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
+                          <select 
+                            value={taxRegime}
+                            onChange={(e) => setTaxRegime(e.target.value as TaxRegime)}
+                            className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium appearance-none"
+                          >
+                            {(Object.keys(TAX_REGIME_LABELS) as TaxRegime[]).map((regime) => (
+                              <option key={regime} value={regime}>{TAX_REGIME_LABELS[regime]}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                      {taxRegime !== 'simples' && (
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <label className="block text-sm font-medium text-stone-700 mb-1.5">RAT</label>
+                            <select 
+                              value={ratRate}
+                              onChange={(e) => setRatRate(Number(e.target.value))}
+                              className="w-full px-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium appearance-none"
+                            >
+                              <option value={1}>1% (Risco leve)</option>
+                              <option value={2}>2% (Risco médio)</option>
+                              <option value={3}>3% (Risco grave)</option>
+                            </select>
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-stone-700 mb-1.5">FAP</label>
+                            <input 
+                              type="number" 
+                              min="0.5"
+                              max="2"
+                              step="0.0001"
+                              value={fap}
+                              onChange={handleNumberInput(setFap)}
+                              className="w-full px-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium"
+                            />
+                          </div>
+                        </div>
+                      )}
+                      {(taxRegime === 'lucro-real' || taxRegime === 'lucro-presumido') && (
+                        <div>
+                          <label className="block text-sm font-medium text-stone-700 mb-1.5">Terceiros / Sistema S</label>
+                          <div className="relative">
+                            <Percent className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
+                            <input 
+                              type="number" 
+                              min="0"
+                              step="0.1"
+                              value={thirdPartiesRate}
+                              onChange={handleNumberInput(setThirdPartiesRate)}
+                              className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium"
+                            />
+                          </div>
+                        </div>
+                      )}
+                      <div>
+                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Benefícios Mensais (VT, VR, Saúde)</label>
+                        <div className="relative">
+                          <Gift className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
+                          <input 
+                            type="number" 
+                            min="0"
+                            value={employerBenefits}
+                            onChange={handleNumberInput(setEmployerBenefits)}
+                            className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium"
+                            placeholder="0,00"
+                          />
+                        </div>
+                      </div>
+                    </motion.div>
+                  )}
+
+                  {activeTab === 'compare' && (
+                    <motion.div 
+                      key="compare-inputs"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -10 }}
+                      className="space-y-5"
+                    >
+                      <div>
+                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Faturamento Mensal PJ</label>
+                        <div className="relative">
+                          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 font-medium">R$</span>
+                          <input 
+                            type="number" 
+                            min="0"
+                            value={pjRevenue}
+                            onChange={handleNumberInput(setPjRevenue)}
+                            className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium"
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Enquadramento PJ</label>
+                        <div className="relative">
+                          <Briefcase className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
+                          <select 
+                            value={pjRegime}
+                            onChange={(e) => setPjRegime(e.target.value as PjRegime)}
+                            className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium appearance-none"
+                          >
+                            <option value="simples">Simples Nacional (Anexo III/V com Fator R)</option>
+                            <option value="mei">MEI</option>
+                          </select>
+                        </div>
+                      </div>
+                      {pjRegime === 'simples' && (
+                        <div>
+                          <label className="block text-sm font-medium text-stone-700 mb-1.5">Pró-labore</label>
+                          <div className="relative">
+                            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 font-medium">R$</span>
+                            <input 
+                              type="number" 
+                              min="0"
+                              value={proLabore}
+                              onChange={handleNumberInput(setProLabore)}
+                              className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium"
+                              placeholder="Automático (28% do faturamento)"
+                            />
+                          </div>
+                        </div>
+                      )}
+                      <div>
+                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Contador (mensal)</label>
+                        <div className="relative">
+                          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 font-medium">R$</span>
+                          <input 
+                            type="number" 
+                            min="0"
+                            value={accountantCost}
+                            onChange={handleNumberInput(setAccountantCost)}
+                            className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium"
+                          />
+                        </div>
+                      </div>
+                    </motion.div>
+                  )}
+
+                  {activeTab === 'unemployment' && (
+                    <motion.div 
+                      key="unemployment-inputs"
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      exit={{ opacity: 0, y: -10 }}
+                      className="space-y-5"
+                    >
+                      <div>
+                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Últimos 3 Salários</label>
+                        <div className="grid grid-cols-3 gap-2">
+                          {lastSalaries.map((salary, index) => (
+                            <input 
+                              key={index}
+                              type="number" 
+                              min="0"
+                              value={salary}
+                              onChange={handleLastSalary(index)}
+                              className="w-full px-3 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium text-sm"
+                              placeholder={salaryResult.grossSalary.toFixed(2)}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Meses Trabalhados (últimos 36)</label>
+                        <div className="relative">
+                          <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
+                          <input 
+                            type="number" 
+                            min="0"
+                            value={monthsWorked}
+                            onChange={handleNumberInput(setMonthsWorked)}
+                            className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium"
+                            placeholder={`${contractMonths} (pelo contrato)`}
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Solicitações Anteriores</label>
+                        <div className="relative">
+                          <LifeBuoy className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
+                          <select 
+                            value={previousClaims}
+                            onChange={(e) => setPreviousClaims(Number(e.target.value))}
+                            className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium appearance-none"
+                          >
+                            <option value={0}>Nenhuma (1ª solicitação)</option>
+                            <option value={1}>Uma (2ª solicitação)</option>
+                            <option value={2}>Duas ou mais (3ª em diante)</option>
+                          </select>
+                        </div>
+                      </div>
+                    </motion.div>
+                  )}
+
                   {activeTab === 'termination' && (
                     <motion.div 
                       key="termination-inputs"
@@ -379,19 +1236,111 @@ export default function App() {
                           />
                         </div>
                       </div>
+                      <div className="p-4 bg-stone-50 rounded-xl border border-stone-200 space-y-4">
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <p className="text-sm font-semibold">Simular Saldo FGTS</p>
+                            <p className="text-xs text-stone-500">Depósitos de 8% desde a admissão, com JAM de 3% a.a. + TR</p>
+                          </div>
+                          <button 
+                            onClick={() => setSimulateFgtsBalance(!simulateFgtsBalance)}
+                            className={cn(
+                              "w-12 h-6 rounded-full transition-colors relative shrink-0",
+                              simulateFgtsBalance ? "bg-emerald-600" : "bg-stone-300"
+                            )}
+                          >
+                            <div className={cn(
+                              "absolute top-1 w-4 h-4 bg-white rounded-full transition-all",
+                              simulateFgtsBalance ? "left-7" : "left-1"
+                            )} />
+                          </button>
+                        </div>
+                        {simulateFgtsBalance ? (
+                          <div>
+                            <label className="block text-xs font-medium text-stone-500 mb-1.5">Reajustes Salariais (opcional)</label>
+                            <SalaryHistoryEditor 
+                              history={salaryHistory} 
+                              defaultFrom={startDate.slice(0, 7)} 
+                              onChange={setSalaryHistory} 
+                            />
+                          </div>
+                        ) : (
+                          <div>
+                            <label className="block text-xs font-medium text-stone-500 mb-1.5">Saldo FGTS (para multa)</label>
+                            <div className="relative">
+                              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 font-medium">R$</span>
+                              <input 
+                                type="number" 
+                                min="0"
+                                value={fgtsBalance}
+                                onChange={handleNumberInput(setFgtsBalance)}
+                                className="w-full pl-10 pr-4 py-2.5 bg-white border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium"
+                              />
+                            </div>
+                          </div>
+                        )}
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <p className="text-sm font-semibold">Optante do Saque-Aniversário</p>
+                            <p className="text-xs text-stone-500">Na demissão, só a multa pode ser sacada</p>
+                          </div>
+                          <button 
+                            onClick={() => setAnniversaryWithdrawal(!anniversaryWithdrawal)}
+                            className={cn(
+                              "w-12 h-6 rounded-full transition-colors relative shrink-0",
+                              anniversaryWithdrawal ? "bg-emerald-600" : "bg-stone-300"
+                            )}
+                          >
+                            <div className={cn(
+                              "absolute top-1 w-4 h-4 bg-white rounded-full transition-all",
+                              anniversaryWithdrawal ? "left-7" : "left-1"
+                            )} />
+                          </button>
+                        </div>
+                      </div>
                       <div>
-                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Saldo FGTS (para multa)</label>
+                        <label className="block text-sm font-medium text-stone-700 mb-1.5">Períodos de Férias Já Gozados</label>
                         <div className="relative">
-                          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 font-medium">R$</span>
+                          <Umbrella className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 w-4 h-4" />
                           <input 
                             type="number" 
                             min="0"
-                            value={fgtsBalance}
-                            onChange={handleNumberInput(setFgtsBalance)}
+                            value={takenVacationPeriods}
+                            onChange={handleNumberInput(setTakenVacationPeriods)}
                             className="w-full pl-10 pr-4 py-2.5 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium"
+                            placeholder="Não informado"
                           />
                         </div>
+                        {terminationResult?.takenPeriodsMissing && (
+                          <p className="text-[10px] text-amber-600 mt-1 font-medium">
+                            Informe quantos períodos já foram gozados: em branco, todos os completos entram como férias vencidas.
+                          </p>
+                        )}
                       </div>
+                      {terminationType !== 'com-justa-causa' && (
+                        <div className="flex items-center justify-between p-4 bg-stone-50 rounded-xl border border-stone-200">
+                          <div>
+                            <p className="text-sm font-semibold">Aviso Prévio Trabalhado</p>
+                            <p className="text-xs text-stone-500">
+                              {terminationType === 'pedido-demissao' 
+                                ? 'Se não cumprido, o aviso é descontado' 
+                                : 'Se não trabalhado, o aviso é indenizado e projetado'}
+                            </p>
+                          </div>
+                          <button 
+                            onClick={() => setNoticeWorked(!noticeWorked)}
+                            className={cn(
+                              "w-12 h-6 rounded-full transition-colors relative",
+                              noticeWorked ? "bg-emerald-600" : "bg-stone-300"
+                            )}
+                          >
+                            <div className={cn(
+                              "absolute top-1 w-4 h-4 bg-white rounded-full transition-all",
+                              noticeWorked ? "left-7" : "left-1"
+                            )} />
+                          </button>
+                        </div>
+                      )}
                     </motion.div>
                   )}
                 </AnimatePresence>
@@ -402,9 +1351,17 @@ export default function App() {
               <div className="flex gap-3">
                 <Info className="w-5 h-5 text-emerald-600 shrink-0" />
                 <p className="text-xs text-emerald-800 leading-relaxed">
-                  {activeTab === 'termination' 
-                    ? "O cálculo de rescisão considera saldo de salário, 13º proporcional, férias proporcionais e multas do FGTS conforme o tipo selecionado."
-                    : "Os cálculos utilizam as tabelas vigentes de INSS e IRRF para 2024/2025. Lembre-se que benefícios como VR e VT podem variar."}
+                  {activeTab === 'thirteenth'
+                    ? `A 1ª parcela é paga até 30/11 sem descontos. A 2ª parcela, até 20/12, sofre INSS e IRRF exclusivo na fonte sobre o 13º integral (tabelas de ${activeTable.label}).`
+                    : activeTab === 'compare'
+                    ? "O líquido anual CLT soma 11 salários, férias + 1/3, 13º e FGTS. O PJ considera DAS, INSS e IRRF do pró-labore e o contador; a distribuição de lucros é isenta."
+                    : activeTab === 'employer'
+                    ? "O custo considera encargos patronais, FGTS e provisões mensais de 13º e férias + 1/3 com seus encargos, sobre o bruto informado na aba Salário (com bônus e adicionais)."
+                    : activeTab === 'unemployment'
+                    ? `O seguro-desemprego usa a média dos 3 últimos salários, com piso de um salário mínimo e a tabela vigente em ${unemploymentResult.tableVersion}. O tipo e a data da dispensa vêm da aba Rescisão.`
+                    : activeTab === 'termination' 
+                    ? `O cálculo de rescisão considera saldo de salário, 13º proporcional, férias proporcionais e multas do FGTS conforme o tipo selecionado, com as tabelas vigentes em ${activeTable.label}.`
+                    : `Os cálculos utilizam as tabelas de INSS e IRRF vigentes em ${activeTable.label}. Lembre-se que benefícios como VR e VT podem variar.`}
                 </p>
               </div>
             </div>
@@ -443,10 +1400,16 @@ export default function App() {
                   <div className="bg-white rounded-2xl border border-stone-200 overflow-hidden">
                     <div className="p-6 border-b border-stone-100 flex justify-between items-center">
                       <h4 className="font-semibold">Detalhamento da Folha</h4>
-                      <span className="text-xs text-stone-400 font-mono">REF: MENSAL</span>
+                      <span className="text-xs text-stone-400 font-mono">REF: {competence.split('-').reverse().join('/')}</span>
                     </div>
                     <div className="divide-y divide-stone-50">
-                      <DetailRow label="Salário Bruto + Bônus" value={formatCurrency(salaryResult.grossSalary)} />
+                      <DetailRow label="Salário Base" value={formatCurrency(salaryResult.baseSalary)} />
+                      {salaryResult.bonuses > 0 && (
+                        <DetailRow label="Bônus / Gratificações" value={formatCurrency(salaryResult.bonuses)} />
+                      )}
+                      {salaryResult.hazardPay > 0 && (
+                        <DetailRow label={`Adicional de ${HAZARD_LABELS[hazard]}`} value={formatCurrency(salaryResult.hazardPay)} />
+                      )}
                       
                       <div className="bg-stone-50/30">
                         <button 
@@ -479,8 +1442,18 @@ export default function App() {
                                   <span className="text-stone-400">IRRF (Imposto de Renda)</span>
                                   <span className="text-stone-600 font-medium">{formatCurrency(salaryResult.irrf)}</span>
                                 </div>
+                                <div className="flex justify-between text-xs">
+                                  <span className="text-stone-400">Base de Cálculo IRRF</span>
+                                  <span className="text-stone-600 font-medium">{formatCurrency(salaryResult.irrfBase)}</span>
+                                </div>
+                                <div className="flex justify-between text-xs">
+                                  <span className="text-stone-400">Dedução Utilizada</span>
+                                  <span className="text-stone-600 font-medium">
+                                    {salaryResult.irrfMethod === 'simplified' ? 'Desconto Simplificado' : 'Deduções Legais'}
+                                  </span>
+                                </div>
                                 <div className="p-3 bg-white rounded-lg border border-stone-100 text-[10px] text-stone-400 leading-relaxed">
-                                  O INSS é calculado sobre o bruto usando alíquotas progressivas (7.5% a 14%). O IRRF é calculado sobre a base (Bruto - INSS - Dependentes) com alíquotas de 7.5% a 27.5%.
+                                  O INSS é calculado sobre o bruto usando alíquotas progressivas (7.5% a 14%). O IRRF é calculado com alíquotas de 7.5% a 27.5% sobre a base que gerar o menor imposto: Bruto - INSS - Dependentes - Pensão - Previdência Privada, ou Bruto - Desconto Simplificado ({formatCurrency(activeTable.simplifiedDiscount)}).
                                 </div>
                               </div>
                             </motion.div>
@@ -488,8 +1461,16 @@ export default function App() {
                         </AnimatePresence>
                       </div>
 
-                      {parseSafe(otherDiscounts) > 0 && (
-                        <DetailRow label="Outros Descontos" value={`- ${formatCurrency(parseSafe(otherDiscounts))}`} isNegative />
+                      {salaryResult.deductionLines.map((line, i) => (
+                        <React.Fragment key={i}>
+                          <DetailRow label={line.label} value={`- ${formatCurrency(line.amount)}`} isNegative />
+                        </React.Fragment>
+                      ))}
+                      {salaryResult.payrollLoanMarginExceeded && (
+                        <div className="p-4 sm:px-6 bg-amber-50 text-xs text-amber-800 font-medium flex items-center gap-2">
+                          <AlertCircle className="w-4 h-4 shrink-0" />
+                          Consignado acima da margem de 35% ({formatCurrency(salaryResult.payrollLoanMargin)})
+                        </div>
                       )}
                       <div className="p-6 bg-stone-50 flex justify-between items-center">
                         <span className="font-bold text-stone-900">Total Líquido</span>
@@ -497,6 +1478,15 @@ export default function App() {
                       </div>
                     </div>
                   </div>
+
+                  <CalculationTraceView trace={salaryResult.trace} />
+
+                  <button
+                    onClick={() => setShowPayslip(true)}
+                    className="w-full flex items-center justify-center gap-2 p-4 bg-white border border-stone-200 rounded-2xl text-sm font-semibold text-stone-700 hover:border-emerald-300 hover:text-emerald-700 transition-colors"
+                  >
+                    <Printer className="w-4 h-4" /> Gerar Holerite
+                  </button>
                 </motion.div>
               )}
 
@@ -513,8 +1503,8 @@ export default function App() {
                     <div className="absolute top-0 right-0 p-4 sm:p-8 opacity-10">
                       <Clock className="w-24 h-24 sm:w-32 sm:h-32" />
                     </div>
-                    <p className="text-stone-400 text-xs sm:text-sm font-medium uppercase tracking-widest mb-1 sm:mb-2">Valor Total Horas Extras</p>
-                    <h3 className="text-3xl sm:text-5xl font-bold tracking-tight break-words">{formatCurrency(hoursResult.overtimeValue)}</h3>
+                    <p className="text-stone-400 text-xs sm:text-sm font-medium uppercase tracking-widest mb-1 sm:mb-2">Valor Total de Adicionais</p>
+                    <h3 className="text-3xl sm:text-5xl font-bold tracking-tight break-words">{formatCurrency(hoursResult.totalValue)}</h3>
                     <div className="mt-6 sm:mt-8 flex flex-wrap gap-4 sm:gap-6">
                       <div>
                         <p className="text-stone-500 text-[9px] sm:text-[10px] uppercase font-bold tracking-wider mb-1">Valor da Hora Comum</p>
@@ -522,8 +1512,8 @@ export default function App() {
                       </div>
                       <div className="hidden sm:block w-px h-10 bg-stone-800" />
                       <div>
-                        <p className="text-stone-500 text-[9px] sm:text-[10px] uppercase font-bold tracking-wider mb-1">Valor da Hora Extra ({overtimePercent}%)</p>
-                        <p className="text-lg sm:text-xl font-semibold">{formatCurrency(hoursResult.hourlyRate * (1 + overtimePercent/100))}</p>
+                        <p className="text-stone-500 text-[9px] sm:text-[10px] uppercase font-bold tracking-wider mb-1">Valor da Hora Extra ({timesheet ? 50 : overtimePercent}%)</p>
+                        <p className="text-lg sm:text-xl font-semibold">{formatCurrency(hoursResult.hourlyRate * (1 + (timesheet ? 50 : overtimePercent) / 100))}</p>
                       </div>
                     </div>
                   </div>
@@ -534,8 +1524,8 @@ export default function App() {
                         <DollarSign className="w-5 h-5 text-emerald-600" />
                       </div>
                       <h4 className="font-semibold text-stone-900 mb-1">Ganhos Extras</h4>
-                      <p className="text-sm text-stone-500 mb-4">Total bruto a receber pelas horas adicionais trabalhadas.</p>
-                      <p className="text-2xl font-bold text-emerald-600">{formatCurrency(hoursResult.overtimeValue)}</p>
+                      <p className="text-sm text-stone-500 mb-4">Total bruto a receber por horas extras, adicional noturno e reflexos no DSR.</p>
+                      <p className="text-2xl font-bold text-emerald-600">{formatCurrency(hoursResult.totalValue)}</p>
                     </div>
                     <div className="bg-white p-6 rounded-2xl border border-stone-200">
                       <div className="w-10 h-10 bg-blue-100 rounded-xl flex items-center justify-center mb-4">
@@ -543,9 +1533,36 @@ export default function App() {
                       </div>
                       <h4 className="font-semibold text-stone-900 mb-1">Novo Bruto</h4>
                       <p className="text-sm text-stone-500 mb-4">Seu salário bruto somado às horas extras deste mês.</p>
-                      <p className="text-2xl font-bold text-stone-900">{formatCurrency(parseSafe(grossSalary) + hoursResult.overtimeValue)}</p>
+                      <p className="text-2xl font-bold text-stone-900">{formatCurrency(parseSafe(grossSalary) + hoursResult.totalValue)}</p>
                     </div>
                   </div>
+
+                  <div className="bg-white rounded-2xl border border-stone-200 overflow-hidden">
+                    <div className="p-6 border-b border-stone-100">
+                      <h4 className="font-semibold">Composição dos Adicionais</h4>
+                    </div>
+                    <div className="divide-y divide-stone-50">
+                      <DetailRow label={`Horas Extras (${timesheet ? 50 : overtimePercent}%)`} value={formatCurrency(hoursResult.overtimeValue)} />
+                      {hoursResult.holidayOvertimeValue > 0 && (
+                        <DetailRow label="Horas Extras (100%)" value={formatCurrency(hoursResult.holidayOvertimeValue)} />
+                      )}
+                      <DetailRow label="DSR sobre Horas Extras" value={formatCurrency(hoursResult.overtimeDsr)} />
+                      {hoursResult.nightPremium > 0 && (
+                        <>
+                          <DetailRow label={`Adicional Noturno 20% (${hoursResult.nightHours.toFixed(2).replace('.', ',')}h reduzidas)`} value={formatCurrency(hoursResult.nightPremium)} />
+                          <DetailRow label="DSR sobre Adicional Noturno" value={formatCurrency(hoursResult.nightPremiumDsr)} />
+                        </>
+                      )}
+                      <div className="p-6 bg-stone-50 flex justify-between items-center">
+                        <span className="font-bold text-stone-900">Total</span>
+                        <span className="font-bold text-stone-900 text-lg">{formatCurrency(hoursResult.totalValue)}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <CalculationTraceView trace={hoursResult.trace} />
+
+                  {timesheet && <TimesheetTable summary={timesheet} />}
                 </motion.div>
               )}
 
@@ -599,6 +1616,266 @@ export default function App() {
                       </div>
                     </div>
                   </div>
+
+                  <CalculationTraceView trace={vacationResult.trace} />
+                </motion.div>
+              )}
+
+              {activeTab === 'thirteenth' && (
+                <motion.div
+                  key="thirteenth-res"
+                  initial={{ opacity: 0, x: 20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: -20 }}
+                  transition={{ duration: 0.3, ease: "easeOut" }}
+                  className="space-y-6"
+                >
+                  <div className="bg-amber-500 rounded-2xl sm:rounded-3xl p-6 sm:p-8 text-white shadow-xl shadow-amber-900/10 relative overflow-hidden">
+                    <div className="absolute top-0 right-0 p-4 sm:p-8 opacity-10">
+                      <Coins className="w-24 h-24 sm:w-32 sm:h-32" />
+                    </div>
+                    <p className="text-amber-100 text-xs sm:text-sm font-medium uppercase tracking-widest mb-1 sm:mb-2">13º Salário Líquido {referenceDate.getFullYear()}</p>
+                    <h3 className="text-3xl sm:text-5xl font-bold tracking-tight break-words">{formatCurrency(thirteenthResult.netTotal)}</h3>
+                    <div className="mt-6 sm:mt-8 grid grid-cols-2 gap-3 sm:gap-4">
+                      <div className="bg-white/10 rounded-xl sm:rounded-2xl p-3 sm:p-4 backdrop-blur-sm">
+                        <p className="text-amber-100 text-[9px] sm:text-[10px] uppercase font-bold tracking-wider mb-1">1ª Parcela (até 30/11)</p>
+                        <p className="text-base sm:text-xl font-semibold">{formatCurrency(thirteenthResult.firstInstallment)}</p>
+                      </div>
+                      <div className="bg-white/10 rounded-xl sm:rounded-2xl p-3 sm:p-4 backdrop-blur-sm">
+                        <p className="text-amber-100 text-[9px] sm:text-[10px] uppercase font-bold tracking-wider mb-1">2ª Parcela (até 20/12)</p>
+                        <p className="text-base sm:text-xl font-semibold">{formatCurrency(thirteenthResult.secondInstallment)}</p>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="bg-white rounded-2xl border border-stone-200 overflow-hidden">
+                    <div className="p-6 border-b border-stone-100 flex justify-between items-center">
+                      <h4 className="font-semibold">Composição do 13º</h4>
+                      <span className="text-xs text-stone-400 font-mono">{thirteenthResult.months}/12 AVOS</span>
+                    </div>
+                    <div className="divide-y divide-stone-50">
+                      <DetailRow label="Base (Salário + Média de Variáveis)" value={formatCurrency(thirteenthResult.baseSalary)} />
+                      <DetailRow label={`13º Bruto (${thirteenthResult.months}/12)`} value={formatCurrency(thirteenthResult.grossTotal)} />
+                      <DetailRow label="1ª Parcela (adiantamento)" value={`- ${formatCurrency(thirteenthResult.firstInstallment)}`} isNegative />
+                      <DetailRow label="INSS sobre 13º" value={`- ${formatCurrency(thirteenthResult.inss)}`} isNegative />
+                      <DetailRow label="IRRF sobre 13º" value={`- ${formatCurrency(thirteenthResult.irrf)}`} isNegative />
+                      <div className="p-6 bg-stone-50 flex justify-between items-center">
+                        <span className="font-bold text-stone-900">2ª Parcela Líquida</span>
+                        <span className="font-bold text-amber-600 text-lg">{formatCurrency(thirteenthResult.secondInstallment)}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <CalculationTraceView trace={thirteenthResult.trace} />
+                </motion.div>
+              )}
+
+              {activeTab === 'employer' && (
+                <motion.div
+                  key="employer-res"
+                  initial={{ opacity: 0, x: 20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: -20 }}
+                  transition={{ duration: 0.3, ease: "easeOut" }}
+                  className="space-y-6"
+                >
+                  <div className="bg-indigo-600 rounded-2xl sm:rounded-3xl p-6 sm:p-8 text-white shadow-xl shadow-indigo-900/10 relative overflow-hidden">
+                    <div className="absolute top-0 right-0 p-4 sm:p-8 opacity-10">
+                      <Building2 className="w-24 h-24 sm:w-32 sm:h-32" />
+                    </div>
+                    <p className="text-indigo-100 text-xs sm:text-sm font-medium uppercase tracking-widest mb-1 sm:mb-2">Custo Mensal do Funcionário</p>
+                    <h3 className="text-3xl sm:text-5xl font-bold tracking-tight break-words">{formatCurrency(employerCostResult.monthlyTotal)}</h3>
+                    <div className="mt-6 sm:mt-8 grid grid-cols-2 gap-3 sm:gap-4">
+                      <div className="bg-white/10 rounded-xl sm:rounded-2xl p-3 sm:p-4 backdrop-blur-sm">
+                        <p className="text-indigo-100 text-[9px] sm:text-[10px] uppercase font-bold tracking-wider mb-1">Custo Anual</p>
+                        <p className="text-base sm:text-xl font-semibold">{formatCurrency(employerCostResult.annualTotal)}</p>
+                      </div>
+                      <div className="bg-white/10 rounded-xl sm:rounded-2xl p-3 sm:p-4 backdrop-blur-sm">
+                        <p className="text-indigo-100 text-[9px] sm:text-[10px] uppercase font-bold tracking-wider mb-1">Custo / Salário Bruto</p>
+                        <p className="text-base sm:text-xl font-semibold">
+                          {employerCostResult.grossSalary > 0 ? `${(employerCostResult.monthlyTotal / employerCostResult.grossSalary).toFixed(2).replace('.', ',')}x` : '-'}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="bg-white rounded-2xl border border-stone-200 overflow-hidden">
+                    <div className="p-6 border-b border-stone-100 flex justify-between items-center">
+                      <h4 className="font-semibold">Composição do Custo</h4>
+                      <span className="text-xs text-stone-400 font-mono">{TAX_REGIME_LABELS[taxRegime].toUpperCase()}</span>
+                    </div>
+                    <div className="divide-y divide-stone-50">
+                      <DetailRow label="Salário Bruto" value={formatCurrency(employerCostResult.grossSalary)} />
+                      {employerCostResult.employerInss > 0 && (
+                        <DetailRow label="INSS Patronal (20%)" value={formatCurrency(employerCostResult.employerInss)} />
+                      )}
+                      {employerCostResult.ratFap > 0 && (
+                        <DetailRow label="RAT × FAP" value={formatCurrency(employerCostResult.ratFap)} />
+                      )}
+                      {employerCostResult.thirdParties > 0 && (
+                        <DetailRow label="Terceiros / Sistema S" value={formatCurrency(employerCostResult.thirdParties)} />
+                      )}
+                      <DetailRow label="FGTS (8%)" value={formatCurrency(employerCostResult.fgts)} />
+                      <DetailRow label="Provisão 13º Salário" value={formatCurrency(employerCostResult.thirteenthProvision)} />
+                      <DetailRow label="Provisão Férias + 1/3" value={formatCurrency(employerCostResult.vacationProvision)} />
+                      <DetailRow label="Encargos sobre Provisões" value={formatCurrency(employerCostResult.provisionCharges)} />
+                      {employerCostResult.benefits > 0 && (
+                        <DetailRow label="Benefícios" value={formatCurrency(employerCostResult.benefits)} />
+                      )}
+                      <div className="p-6 bg-stone-50 flex justify-between items-center">
+                        <span className="font-bold text-stone-900">Total Mensal</span>
+                        <span className="font-bold text-indigo-600 text-lg">{formatCurrency(employerCostResult.monthlyTotal)}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <CalculationTraceView trace={employerCostResult.trace} />
+                </motion.div>
+              )}
+
+              {activeTab === 'compare' && (
+                <motion.div
+                  key="compare-res"
+                  initial={{ opacity: 0, x: 20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: -20 }}
+                  transition={{ duration: 0.3, ease: "easeOut" }}
+                  className="space-y-6"
+                >
+                  <div className="bg-stone-900 rounded-2xl sm:rounded-3xl p-6 sm:p-8 text-white shadow-xl relative overflow-hidden">
+                    <div className="absolute top-0 right-0 p-4 sm:p-8 opacity-10">
+                      <ArrowLeftRight className="w-24 h-24 sm:w-32 sm:h-32" />
+                    </div>
+                    <p className="text-stone-400 text-xs sm:text-sm font-medium uppercase tracking-widest mb-1 sm:mb-2">
+                      {comparisonResult.pj.annualNet >= comparisonResult.clt.annualNet ? 'PJ rende mais por ano' : 'CLT rende mais por ano'}
+                    </p>
+                    <h3 className="text-3xl sm:text-5xl font-bold tracking-tight break-words">
+                      {formatCurrency(Math.abs(comparisonResult.pj.annualNet - comparisonResult.clt.annualNet))}
+                    </h3>
+                    <div className="mt-6 sm:mt-8 grid grid-cols-2 gap-3 sm:gap-4">
+                      <div className="bg-white/10 rounded-xl sm:rounded-2xl p-3 sm:p-4 backdrop-blur-sm">
+                        <p className="text-stone-400 text-[9px] sm:text-[10px] uppercase font-bold tracking-wider mb-1">Líquido Anual CLT</p>
+                        <p className="text-base sm:text-xl font-semibold">{formatCurrency(comparisonResult.clt.annualNet)}</p>
+                      </div>
+                      <div className="bg-white/10 rounded-xl sm:rounded-2xl p-3 sm:p-4 backdrop-blur-sm">
+                        <p className="text-stone-400 text-[9px] sm:text-[10px] uppercase font-bold tracking-wider mb-1">Líquido Anual PJ</p>
+                        <p className="text-base sm:text-xl font-semibold">{formatCurrency(comparisonResult.pj.annualNet)}</p>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="bg-white p-6 rounded-2xl border border-stone-200">
+                      <h4 className="font-semibold text-stone-900 mb-1">PJ Equivalente</h4>
+                      <p className="text-sm text-stone-500 mb-4">Faturamento mensal para igualar o líquido anual da CLT.</p>
+                      <p className="text-2xl font-bold text-emerald-600">{formatCurrency(comparisonResult.equivalentPjRevenue)}</p>
+                    </div>
+                    <div className="bg-white p-6 rounded-2xl border border-stone-200">
+                      <h4 className="font-semibold text-stone-900 mb-1">CLT Equivalente</h4>
+                      <p className="text-sm text-stone-500 mb-4">Salário bruto para igualar o líquido anual do PJ.</p>
+                      <p className="text-2xl font-bold text-stone-900">{formatCurrency(comparisonResult.equivalentCltSalary)}</p>
+                    </div>
+                  </div>
+
+                  <div className="bg-white rounded-2xl border border-stone-200 overflow-hidden">
+                    <div className="p-6 border-b border-stone-100">
+                      <h4 className="font-semibold">CLT (ano)</h4>
+                    </div>
+                    <div className="divide-y divide-stone-50">
+                      <DetailRow label="11 Salários Líquidos" value={formatCurrency(comparisonResult.clt.monthlyNet * 11)} />
+                      <DetailRow label="Férias + 1/3 Líquidas" value={formatCurrency(comparisonResult.clt.vacationNet)} />
+                      <DetailRow label="13º Salário Líquido" value={formatCurrency(comparisonResult.clt.thirteenthNet)} />
+                      <DetailRow label="FGTS Depositado" value={formatCurrency(comparisonResult.clt.fgts)} />
+                    </div>
+                  </div>
+
+                  <div className="bg-white rounded-2xl border border-stone-200 overflow-hidden">
+                    <div className="p-6 border-b border-stone-100 flex justify-between items-center">
+                      <h4 className="font-semibold">PJ (mês)</h4>
+                      <span className="text-xs text-stone-400 font-mono">
+                        {comparisonResult.pj.regime === 'mei' ? 'MEI' : `ANEXO ${comparisonResult.pj.annex} · FATOR R ${(comparisonResult.pj.fatorR * 100).toFixed(1)}%`}
+                      </span>
+                    </div>
+                    <div className="divide-y divide-stone-50">
+                      <DetailRow label="Faturamento" value={formatCurrency(comparisonResult.pj.monthlyRevenue)} />
+                      <DetailRow label={`DAS (${(comparisonResult.pj.dasRate * 100).toFixed(2).replace('.', ',')}%)`} value={`- ${formatCurrency(comparisonResult.pj.das)}`} isNegative />
+                      {comparisonResult.pj.regime === 'simples' && (
+                        <>
+                          <DetailRow label={`INSS Pró-labore (${formatCurrency(comparisonResult.pj.proLabore)})`} value={`- ${formatCurrency(comparisonResult.pj.proLaboreInss)}`} isNegative />
+                          <DetailRow label="IRRF Pró-labore" value={`- ${formatCurrency(comparisonResult.pj.proLaboreIrrf)}`} isNegative />
+                        </>
+                      )}
+                      <DetailRow label="Contador" value={`- ${formatCurrency(comparisonResult.pj.accountantCost)}`} isNegative />
+                      {comparisonResult.pj.meiLimitExceeded && (
+                        <div className="p-4 sm:px-6 bg-amber-50 text-xs text-amber-800 font-medium flex items-center gap-2">
+                          <AlertCircle className="w-4 h-4 shrink-0" />
+                          Faturamento acima do limite anual do MEI (R$ 81.000,00)
+                        </div>
+                      )}
+                      <div className="p-6 bg-stone-50 flex justify-between items-center">
+                        <span className="font-bold text-stone-900">Líquido Mensal PJ</span>
+                        <span className="font-bold text-emerald-600 text-lg">{formatCurrency(comparisonResult.pj.monthlyNet)}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <CalculationTraceView title="Memória de Cálculo CLT" trace={comparisonResult.clt.trace} />
+                  <CalculationTraceView title="Memória de Cálculo PJ" trace={comparisonResult.pj.trace} />
+                </motion.div>
+              )}
+
+              {activeTab === 'unemployment' && (
+                <motion.div
+                  key="unemployment-res"
+                  initial={{ opacity: 0, x: 20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: -20 }}
+                  transition={{ duration: 0.3, ease: "easeOut" }}
+                  className="space-y-6"
+                >
+                  <div className={cn(
+                    "rounded-2xl sm:rounded-3xl p-6 sm:p-8 text-white shadow-xl relative overflow-hidden",
+                    unemploymentResult.eligible ? "bg-teal-600 shadow-teal-900/10" : "bg-stone-700"
+                  )}>
+                    <div className="absolute top-0 right-0 p-4 sm:p-8 opacity-10">
+                      <LifeBuoy className="w-24 h-24 sm:w-32 sm:h-32" />
+                    </div>
+                    <p className="text-white/70 text-xs sm:text-sm font-medium uppercase tracking-widest mb-1 sm:mb-2">
+                      {unemploymentResult.eligible ? 'Total do Seguro-Desemprego' : 'Sem Direito ao Benefício'}
+                    </p>
+                    <h3 className="text-3xl sm:text-5xl font-bold tracking-tight break-words">{formatCurrency(unemploymentResult.total)}</h3>
+                    {unemploymentResult.eligible ? (
+                      <div className="mt-6 sm:mt-8 grid grid-cols-2 gap-3 sm:gap-4">
+                        <div className="bg-white/10 rounded-xl sm:rounded-2xl p-3 sm:p-4 backdrop-blur-sm">
+                          <p className="text-white/70 text-[9px] sm:text-[10px] uppercase font-bold tracking-wider mb-1">Parcelas</p>
+                          <p className="text-base sm:text-xl font-semibold">{unemploymentResult.installments}</p>
+                        </div>
+                        <div className="bg-white/10 rounded-xl sm:rounded-2xl p-3 sm:p-4 backdrop-blur-sm">
+                          <p className="text-white/70 text-[9px] sm:text-[10px] uppercase font-bold tracking-wider mb-1">Valor da Parcela</p>
+                          <p className="text-base sm:text-xl font-semibold">{formatCurrency(unemploymentResult.installmentValue)}</p>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="mt-6 sm:mt-8 flex items-center gap-2 text-white/80">
+                        <AlertCircle className="w-4 h-4 shrink-0" />
+                        <span className="text-xs sm:text-sm font-medium">{unemploymentResult.reason}</span>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="bg-white rounded-2xl border border-stone-200 overflow-hidden">
+                    <div className="p-6 border-b border-stone-100 flex justify-between items-center">
+                      <h4 className="font-semibold">Requisitos</h4>
+                      <span className="text-xs text-stone-400 font-mono">TABELA {unemploymentResult.tableVersion}</span>
+                    </div>
+                    <div className="divide-y divide-stone-50">
+                      <DetailRow label="Solicitação" value={`${unemploymentResult.claim}ª${unemploymentResult.claim === 3 ? ' ou mais' : ''}`} />
+                      <DetailRow label="Meses Trabalhados" value={`${monthsWorked === '' ? contractMonths : parseSafe(monthsWorked)} de ${unemploymentResult.requiredMonths} exigidos`} />
+                      <DetailRow label="Média dos Últimos Salários" value={formatCurrency(unemploymentResult.averageSalary)} />
+                    </div>
+                  </div>
+
+                  <CalculationTraceView trace={unemploymentResult.trace} />
                 </motion.div>
               )}
 
@@ -617,9 +1894,19 @@ export default function App() {
                     </div>
                     <p className="text-red-100 text-xs sm:text-sm font-medium uppercase tracking-widest mb-1 sm:mb-2">Total Líquido da Rescisão</p>
                     <h3 className="text-3xl sm:text-5xl font-bold tracking-tight break-words">{formatCurrency(terminationResult.netTotal)}</h3>
-                    <div className="mt-6 sm:mt-8 flex items-center gap-2 text-red-100">
-                      <Calendar className="w-4 h-4" />
-                      <span className="text-[10px] sm:text-xs font-medium">Período: {new Date(startDate).toLocaleDateString()} até {new Date(endDate).toLocaleDateString()}</span>
+                    <div className="mt-6 sm:mt-8 flex flex-col gap-2 text-red-100">
+                      <div className="flex items-center gap-2">
+                        <Calendar className="w-4 h-4" />
+                        <span className="text-[10px] sm:text-xs font-medium">Período: {parseLocalDate(startDate).toLocaleDateString()} até {parseLocalDate(endDate).toLocaleDateString()}</span>
+                      </div>
+                      {terminationResult.noticeDays > 0 && (
+                        <div className="flex items-center gap-2">
+                          <Clock className="w-4 h-4" />
+                          <span className="text-[10px] sm:text-xs font-medium">
+                            Aviso prévio: {terminationResult.noticeDays} dias · Projeção: {terminationResult.projectedEndDate.toLocaleDateString()}
+                          </span>
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -630,22 +1917,119 @@ export default function App() {
                     <div className="divide-y divide-stone-50">
                       <DetailRow label="Saldo de Salário" value={formatCurrency(terminationResult.salaryBalance)} />
                       <DetailRow label="13º Salário Proporcional" value={formatCurrency(terminationResult.proportionalThirteenth)} />
+                      {terminationResult.expiredVacation > 0 && (
+                        <DetailRow label="Férias Vencidas" value={formatCurrency(terminationResult.expiredVacation)} />
+                      )}
                       <DetailRow label="Férias Proporcionais" value={formatCurrency(terminationResult.proportionalVacation)} />
                       <DetailRow label="1/3 sobre Férias" value={formatCurrency(terminationResult.vacationOneThird)} />
                       {terminationResult.noticePeriod && terminationResult.noticePeriod > 0 ? (
-                        <DetailRow label="Aviso Prévio Indenizado" value={formatCurrency(terminationResult.noticePeriod)} />
+                        <DetailRow label={`Aviso Prévio Indenizado (${terminationResult.noticeDays} dias)`} value={formatCurrency(terminationResult.noticePeriod)} />
                       ) : null}
                       {terminationResult.fgtsFine && terminationResult.fgtsFine > 0 ? (
                         <DetailRow label="Multa FGTS" value={formatCurrency(terminationResult.fgtsFine)} />
                       ) : null}
                       <DetailRow label="INSS (sobre Saldo e 13º)" value={`- ${formatCurrency(terminationResult.inss)}`} isNegative />
                       <DetailRow label="IRRF (sobre Saldo e 13º)" value={`- ${formatCurrency(terminationResult.irrf)}`} isNegative />
+                      {terminationResult.noticeDeduction > 0 && (
+                        <DetailRow label="Aviso Prévio não Cumprido" value={`- ${formatCurrency(terminationResult.noticeDeduction)}`} isNegative />
+                      )}
                       <div className="p-6 bg-stone-50 flex justify-between items-center">
                         <span className="font-bold text-stone-900">Total Líquido</span>
                         <span className="font-bold text-red-600 text-lg">{formatCurrency(terminationResult.netTotal)}</span>
                       </div>
                     </div>
                   </div>
+
+                  <button
+                    onClick={() => setActiveTab('unemployment')}
+                    className="w-full bg-white p-6 rounded-2xl border border-stone-200 flex justify-between items-center gap-4 text-left hover:border-emerald-300 transition-colors"
+                  >
+                    <div className="flex items-center gap-4">
+                      <LifeBuoy className="w-6 h-6 text-stone-400 shrink-0" />
+                      <div>
+                        <h4 className="font-semibold text-stone-900">Seguro-Desemprego</h4>
+                        <p className="text-xs sm:text-sm text-stone-500">
+                          {unemploymentResult.eligible 
+                            ? `${unemploymentResult.installments} parcelas de ${formatCurrency(unemploymentResult.installmentValue)}` 
+                            : unemploymentResult.reason}
+                        </p>
+                      </div>
+                    </div>
+                    <ChevronRight className="w-5 h-5 text-stone-400 shrink-0" />
+                  </button>
+
+                  <div className="bg-white rounded-2xl border border-stone-200 overflow-hidden">
+                    <div className="p-6 border-b border-stone-100 flex justify-between items-center">
+                      <h4 className="font-semibold">FGTS</h4>
+                      <span className="text-xs text-stone-400 font-mono">{simulateFgtsBalance ? `${fgtsSimulation.months.length} COMPETÊNCIAS` : 'SALDO INFORMADO'}</span>
+                    </div>
+                    <div className="divide-y divide-stone-50">
+                      {simulateFgtsBalance && (
+                        <>
+                          <DetailRow label="Depósitos (8%)" value={formatCurrency(fgtsSimulation.deposits)} />
+                          <DetailRow label="Correção (JAM + TR)" value={formatCurrency(fgtsSimulation.interest)} />
+                        </>
+                      )}
+                      <DetailRow label="Saldo Anterior à Rescisão" value={formatCurrency(effectiveFgtsBalance)} />
+                      <DetailRow label="Depósito da Rescisão" value={formatCurrency(terminationResult.fgtsDeposit)} />
+                      {terminationResult.fgtsFine && terminationResult.fgtsFine > 0 ? (
+                        <DetailRow label={`Multa de ${terminationType === 'sem-justa-causa' ? '40%' : '20%'}`} value={formatCurrency(terminationResult.fgtsFine)} />
+                      ) : null}
+                      <DetailRow 
+                        label={`Saque-Aniversário (${(anniversaryResult.rate * 100).toFixed(0)}% + ${formatCurrency(anniversaryResult.additional)})`} 
+                        value={formatCurrency(anniversaryResult.amount)} 
+                      />
+                      {fgtsRelease.blockedByAnniversary && (
+                        <div className="p-4 sm:px-6 bg-amber-50 text-xs text-amber-800 font-medium flex items-center gap-2">
+                          <AlertCircle className="w-4 h-4 shrink-0" />
+                          Com o saque-aniversário, o saldo fica retido na demissão; apenas a multa é liberada
+                        </div>
+                      )}
+                      <div className="p-6 bg-stone-50 flex justify-between items-center">
+                        <span className="font-bold text-stone-900">Liberado para Saque</span>
+                        <span className="font-bold text-emerald-600 text-lg">{formatCurrency(fgtsRelease.total)}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="bg-white rounded-2xl border border-stone-200 overflow-hidden">
+                    <div className="p-6 border-b border-stone-100">
+                      <h4 className="font-semibold">Períodos Aquisitivos</h4>
+                    </div>
+                    <div className="divide-y divide-stone-50">
+                      {terminationResult.vacationPeriods.map((period) => (
+                        <div key={period.index} className="p-4 sm:p-6 flex justify-between items-center gap-4">
+                          <div>
+                            <p className="text-xs sm:text-sm text-stone-700 font-medium">
+                              {period.start.toLocaleDateString()} – {period.end.toLocaleDateString()}
+                            </p>
+                            <p className="text-[10px] sm:text-xs text-stone-400 mt-0.5">
+                              {VACATION_STATUS_LABELS[period.status]} · {period.months}/12 avos · {period.entitledDays.toFixed(1).replace('.', ',')} dias
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2 shrink-0">
+                            <span className="text-[10px] text-stone-400 uppercase font-bold tracking-wider">Faltas</span>
+                            <input 
+                              type="number" 
+                              min="0"
+                              value={periodAbsences[period.index] ?? 0}
+                              onChange={handlePeriodAbsences(period.index)}
+                              className="w-16 px-2 py-1.5 bg-stone-50 border border-stone-200 rounded-lg focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium text-sm"
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  <CalculationTraceView trace={terminationResult.trace} />
+
+                  <button
+                    onClick={() => setShowTerminationReport(true)}
+                    className="w-full flex items-center justify-center gap-2 p-4 bg-white border border-stone-200 rounded-2xl text-sm font-semibold text-stone-700 hover:border-emerald-300 hover:text-emerald-700 transition-colors"
+                  >
+                    <Printer className="w-4 h-4" /> Gerar Termo de Rescisão (TRCT)
+                  </button>
                 </motion.div>
               )}
             </AnimatePresence>
@@ -666,6 +2050,53 @@ export default function App() {
           </div>
         </div>
       </footer>
+
+      {showScenarios && (
+        <ScenarioSidebar 
+          tabLabels={TAB_LABELS} 
+          buildDraft={buildScenarioDraft} 
+          onOpen={(scenario) => applyInputs(sanitizeInputs(scenario.inputs))} 
+          onClose={() => setShowScenarios(false)} 
+        />
+      )}
+
+      {showAssistant && (
+        <AssistantPanel
+          model={assistantModel}
+          tabLabels={TAB_LABELS}
+          activeTab={activeTab}
+          result={results[activeTab]}
+          onApply={(tab, inputs) => applyInputs(applyInterpretation(currentInputs, tab, inputs))}
+          onClose={() => setShowAssistant(false)}
+        />
+      )}
+
+      {showBatch && (
+        <BatchDialog competence={competence} onClose={() => setShowBatch(false)} />
+      )}
+
+      {showPayslip && (
+        <PayslipDialog 
+          payslip={buildPayslip(salaryResult, competence, documentHeader, hazard)} 
+          onHeaderChange={setDocumentHeader} 
+          onClose={() => setShowPayslip(false)} 
+        />
+      )}
+
+      {showTerminationReport && (
+        <TerminationReportDialog 
+          report={buildTerminationReport(terminationResult, {
+            admissionDate: parseLocalDate(startDate),
+            endDate: parseLocalDate(endDate),
+            type: terminationType,
+            noticeWorked,
+            header: documentHeader,
+            customHolidays
+          })} 
+          onHeaderChange={setDocumentHeader} 
+          onClose={() => setShowTerminationReport(false)} 
+        />
+      )}
     </div>
   );
 }
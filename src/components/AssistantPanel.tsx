@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { AlertCircle, Send, Sparkles, X } from 'lucide-react';
+import { AssistantInterpretation, AssistantModel, ASSISTANT_FIELDS, explainResult, interpretRequest } from '../lib/assistant';
+import { CalculatorInputs, Tab } from '../lib/inputs';
+
+interface Turn {
+  message: string;
+  interpretation?: AssistantInterpretation;
+  explanation?: string;
+  error?: string;
+}
+
+const EXAMPLE = 'Fui demitido sem justa causa, entrei em março de 2021, ganho 4.200 e tenho 12 dias de férias vencidas';
+
+export default function AssistantPanel({
+  model,
+  tabLabels,
+  activeTab,
+  result,
+  onApply,
+  onClose
+}: {
+  model: AssistantModel | null;
+  tabLabels: Record<Tab, string>;
+  activeTab: Tab;
+  result: unknown;
+  onApply: (tab: Tab, inputs: Partial<CalculatorInputs>) => void;
+  onClose: () => void;
+}) {
+  const [message, setMessage] = useState<string>('');
+  const [turns, setTurns] = useState<Turn[]>([]);
+  const [busy, setBusy] = useState<boolean>(false);
+  // Set once the inputs are applied; the explanation waits for the
+  // calculator to recompute the result of that tab
+  const [pending, setPending] = useState<{ index: number; tab: Tab } | null>(null);
+
+  const updateTurn = (index: number, changes: Partial<Turn>) =>
+    setTurns((current) => current.map((turn, i) => (i === index ? { ...turn, ...changes } : turn)));
+
+  useEffect(() => {
+    if (!model || !pending || pending.tab !== activeTab) return;
+    const { index, tab } = pending;
+    setPending(null);
+    explainResult(model, turns[index].message, tab, result, turns[index].interpretation?.notes)
+      .then((explanation) => updateTurn(index, { explanation }))
+      .catch((err) => updateTurn(index, { error: err instanceof Error ? err.message : 'Erro inesperado' }))
+      .finally(() => setBusy(false));
+  }, [pending, activeTab, result]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = message.trim();
+    if (!model || !text || busy) return;
+    const index = turns.length;
+    setTurns([...turns, { message: text }]);
+    setMessage('');
+    setBusy(true);
+    try {
+      const interpretation = await interpretRequest(model, text);
+      updateTurn(index, { interpretation });
+      onApply(interpretation.tab, interpretation.inputs);
+      setPending({ index, tab: interpretation.tab });
+    } catch (err) {
+      updateTurn(index, { error: err instanceof Error ? err.message : 'Erro inesperado' });
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-stone-900/20 print:hidden" onClick={onClose}>
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        transition={{ duration: 0.25, ease: "easeOut" }}
+        onClick={(e) => e.stopPropagation()}
+        className="absolute right-0 top-0 h-full w-full max-w-sm bg-white shadow-2xl flex flex-col"
+      >
+        <div className="p-6 border-b border-stone-100 flex justify-between items-center">
+          <h3 className="font-bold text-lg">Assistente</h3>
+          <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-900 transition-colors" aria-label="Fechar">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {!model && (
+            <div className="p-3 bg-amber-50 rounded-xl text-xs text-amber-800 font-medium flex items-center gap-2">
+              <AlertCircle className="w-4 h-4 shrink-0" /> Configure a GEMINI_API_KEY para usar o assistente.
+            </div>
+          )}
+          {model && turns.length === 0 && (
+            <div className="text-sm text-stone-500 space-y-3">
+              <p>Descreva a situação e o assistente preenche a calculadora certa. Os valores são sempre calculados pela própria aplicação.</p>
+              <button
+                onClick={() => setMessage(EXAMPLE)}
+                className="w-full text-left p-3 bg-stone-50 rounded-xl border border-stone-200 text-xs text-stone-600 hover:border-emerald-300 transition-colors"
+              >
+                "{EXAMPLE}"
+              </button>
+            </div>
+          )}
+          {turns.map((turn, i) => (
+            <div key={i} className="space-y-3">
+              <p className="ml-8 p-3 bg-emerald-600 text-white rounded-2xl rounded-tr-sm text-sm">{turn.message}</p>
+              {turn.interpretation && (
+                <div className="p-3 bg-stone-50 rounded-xl border border-stone-200 text-xs space-y-2">
+                  <p className="font-semibold text-stone-700">Aba {tabLabels[turn.interpretation.tab]}</p>
+                  <ul className="text-stone-500 space-y-0.5">
+                    {Object.keys(turn.interpretation.inputs).map((key) => (
+                      <li key={key}>· {ASSISTANT_FIELDS[key as keyof CalculatorInputs]?.description ?? key}</li>
+                    ))}
+                  </ul>
+                  {turn.interpretation.rejected.length > 0 && (
+                    <p className="text-amber-700">Ignorados por valor inválido: {turn.interpretation.rejected.join(', ')}</p>
+                  )}
+                  {turn.interpretation.notes.length > 0 && (
+                    <p className="text-amber-700">Fora do cálculo: {turn.interpretation.notes.join('; ')}</p>
+                  )}
+                </div>
+              )}
+              {turn.explanation && (
+                <div className="text-sm text-stone-700 leading-relaxed space-y-2">
+                  {turn.explanation.split(/\n\s*\n/).map((paragraph, j) => <p key={j}>{paragraph}</p>)}
+                </div>
+              )}
+              {turn.error && (
+                <div className="p-3 bg-red-50 rounded-xl text-xs text-red-700 font-medium flex items-center gap-2">
+                  <AlertCircle className="w-4 h-4 shrink-0" /> {turn.error}
+                </div>
+              )}
+              {busy && i === turns.length - 1 && !turn.error && (
+                <p className="text-xs text-stone-400 flex items-center gap-1">
+                  <Sparkles className="w-3 h-3" /> {turn.interpretation ? 'Explicando o resultado…' : 'Interpretando o pedido…'}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 border-t border-stone-100 flex gap-2">
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) handleSubmit(e);
+            }}
+            disabled={!model}
+            rows={2}
+            className="flex-1 px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium text-sm resize-none"
+            placeholder="Descreva o cálculo que você precisa"
+          />
+          <button
+            type="submit"
+            disabled={!model || busy || !message.trim()}
+            className="px-3 bg-emerald-600 rounded-xl text-white hover:bg-emerald-700 disabled:bg-stone-300 transition-colors"
+            aria-label="Enviar"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        </form>
+      </motion.aside>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Download, FileSpreadsheet, Upload, X } from 'lucide-react';
+import {
+  buildBatchTemplate,
+  CellValue,
+  readBatchFile,
+  renderBatchCsv,
+  renderBatchXlsx,
+  runBatch,
+  summarizeRow
+} from '../lib/batch';
+import { formatCompetence } from '../lib/payslip';
+import { downloadFile, formatMoney, parseLocalDate } from '../lib/utils';
+
+export default function BatchDialog({
+  competence,
+  onClose
+}: {
+  competence: string;
+  onClose: () => void;
+}) {
+  const [table, setTable] = useState<CellValue[][] | null>(null);
+  const [fileName, setFileName] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Recomputed when the competence changes, so the file never needs reloading
+  const report = useMemo(() => (table ? runBatch(table, parseLocalDate(competence)) : null), [table, competence]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      setTable(await readBatchFile(file));
+      setFileName(file.name);
+    } catch {
+      setTable(null);
+      setError(`Não foi possível ler "${file.name}". Envie um CSV ou XLSX.`);
+    }
+  };
+
+  const exportName = `lote-${competence}`;
+  const totals = report?.totals;
+
+  const handleExportXlsx = async () => {
+    if (!report) return;
+    setError(null);
+    try {
+      downloadFile(`${exportName}.xlsx`, await renderBatchXlsx(report));
+    } catch {
+      setError('Não foi possível gerar o XLSX. Tente exportar em CSV.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-stone-900/40 backdrop-blur-sm overflow-y-auto print:hidden">
+      <div className="max-w-5xl mx-auto my-8 bg-white rounded-3xl shadow-2xl overflow-hidden">
+        <div className="p-6 border-b border-stone-100 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="font-bold text-lg">Processamento em Lote</h3>
+            <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-900 transition-colors" aria-label="Fechar">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <p className="text-sm text-stone-500">
+            Uma linha por empregado. Linhas com data de desligamento calculam a rescisão; as demais, a folha de <span className="capitalize">{formatCompetence(competence)}</span>.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <label className="flex-1 flex items-center justify-center gap-2 py-2.5 bg-stone-50 border border-dashed border-stone-300 rounded-xl text-sm font-medium text-stone-500 hover:border-emerald-500 hover:text-emerald-700 cursor-pointer transition-colors">
+              <Upload className="w-4 h-4" />
+              {fileName ? `Substituir ${fileName}` : 'Importar Planilha (CSV ou XLSX)'}
+              <input type="file" accept=".csv,.xlsx,text/csv" onChange={handleUpload} className="hidden" />
+            </label>
+            <button
+              onClick={() => downloadFile('modelo-lote.csv', buildBatchTemplate(), 'text/csv;charset=utf-8')}
+              className="flex items-center justify-center gap-2 px-4 py-2.5 bg-stone-100 rounded-xl text-sm font-semibold text-stone-700 hover:bg-stone-200 transition-colors"
+            >
+              <FileSpreadsheet className="w-4 h-4" /> Baixar Modelo
+            </button>
+          </div>
+          {error && (
+            <div className="p-3 bg-red-50 rounded-xl text-xs text-red-700 font-medium flex items-center gap-2">
+              <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+            </div>
+          )}
+        </div>
+
+        {report && totals && (
+          <div className="p-6 space-y-6">
+            {report.errors.length > 0 && (
+              <div className="p-4 bg-amber-50 border border-amber-200 rounded-2xl text-xs text-amber-800 space-y-1">
+                {report.errors.map((item, index) => (
+                  <p key={index}>Linha {item.line}: {item.message}</p>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {([
+                ['INSS', totals.inss],
+                ['IRRF', totals.irrf],
+                ['FGTS', totals.fgts + totals.fgtsFine],
+                ['Líquido', totals.net]
+              ] as [string, number][]).map(([label, value]) => (
+                <div key={label} className="p-4 bg-stone-50 rounded-2xl border border-stone-200">
+                  <p className="text-[10px] uppercase font-bold tracking-wider text-stone-400">{label}</p>
+                  <p className="text-lg font-bold font-mono mt-1">{formatMoney(value)}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <p className="text-sm text-stone-500">
+                {report.processed} calculado(s){report.failed > 0 && <span className="text-red-600 font-medium"> · {report.failed} com erro</span>}
+              </p>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => downloadFile(`${exportName}.csv`, renderBatchCsv(report), 'text/csv;charset=utf-8')}
+                  className="flex items-center justify-center gap-2 px-4 py-2.5 bg-stone-100 rounded-xl text-sm font-semibold text-stone-700 hover:bg-stone-200 transition-colors"
+                >
+                  <Download className="w-4 h-4" /> CSV
+                </button>
+                <button
+                  onClick={handleExportXlsx}
+                  className="flex items-center justify-center gap-2 px-4 py-2.5 bg-emerald-600 rounded-xl text-sm font-semibold text-white hover:bg-emerald-700 transition-colors"
+                >
+                  <Download className="w-4 h-4" /> XLSX
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs sm:text-sm">
+                <thead>
+                  <tr className="border-b border-stone-200 text-left text-[10px] uppercase tracking-wider text-stone-400">
+                    <th className="py-2 pr-3">Linha</th>
+                    <th className="py-2 pr-3">Nome</th>
+                    <th className="py-2 pr-3">Cálculo</th>
+                    <th className="py-2 pr-3 text-right">Bruto</th>
+                    <th className="py-2 pr-3 text-right">INSS</th>
+                    <th className="py-2 pr-3 text-right">IRRF</th>
+                    <th className="py-2 pr-3 text-right">FGTS</th>
+                    <th className="py-2 text-right">Líquido</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.rows.map((row) => {
+                    const summary = summarizeRow(row);
+                    return (
+                      <tr key={row.line} className="border-b border-stone-100 align-top">
+                        <td className="py-2 pr-3 text-stone-400 font-mono">{row.line}</td>
+                        <td className="py-2 pr-3 font-medium">{row.name}</td>
+                        {summary ? (
+                          <>
+                            <td className="py-2 pr-3 text-stone-500">{row.termination ? 'Rescisão' : 'Folha'}</td>
+                            <td className="py-2 pr-3 text-right font-mono">{formatMoney(summary.gross)}</td>
+                            <td className="py-2 pr-3 text-right font-mono">{formatMoney(summary.inss)}</td>
+                            <td className="py-2 pr-3 text-right font-mono">{formatMoney(summary.irrf)}</td>
+                            <td className="py-2 pr-3 text-right font-mono">{formatMoney(summary.fgts + summary.fgtsFine)}</td>
+                            <td className="py-2 text-right font-mono font-semibold">{formatMoney(summary.net)}</td>
+                          </>
+                        ) : (
+                          <td colSpan={6} className="py-2 text-red-600">{row.errors.join('; ')}</td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+                <tfoot className="font-bold">
+                  <tr className="border-t border-stone-300">
+                    <td className="py-2 pr-3" />
+                    <td className="py-2 pr-3" colSpan={2}>Total</td>
+                    <td className="py-2 pr-3 text-right font-mono">{formatMoney(totals.gross)}</td>
+                    <td className="py-2 pr-3 text-right font-mono">{formatMoney(totals.inss)}</td>
+                    <td className="py-2 pr-3 text-right font-mono">{formatMoney(totals.irrf)}</td>
+                    <td className="py-2 pr-3 text-right font-mono">{formatMoney(totals.fgts + totals.fgtsFine)}</td>
+                    <td className="py-2 text-right font-mono">{formatMoney(totals.net)}</td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { AnimatePresence, motion } from 'motion/react';
+import { ChevronDown, ChevronUp, ListOrdered } from 'lucide-react';
+import { subtractMoney, sumMoney } from '../lib/money';
+import { brl, CalculationTrace, formatTraceValue, percent } from '../lib/trace';
+
+export default function CalculationTraceView({
+  trace,
+  title = 'Memória de Cálculo'
+}: {
+  trace: CalculationTrace;
+  title?: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const { inss, irrf } = trace;
+  // Brackets are shown to the centavo; the contribution is rounded once over
+  // their exact sum, so the rounded lines may differ from it by a centavo
+  const bracketsTotal = inss ? sumMoney(...inss.brackets.map((bracket) => bracket.amount)) : 0;
+  const roundingAdjustment = inss ? subtractMoney(inss.inss, bracketsTotal) : 0;
+
+  return (
+    <div className="bg-white rounded-2xl border border-stone-200 overflow-hidden">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full p-6 flex justify-between items-center hover:bg-stone-50 transition-colors"
+      >
+        <div className="flex items-center gap-2">
+          <ListOrdered className="w-4 h-4 text-stone-400" />
+          <h4 className="font-semibold">{title}</h4>
+        </div>
+        {open ? <ChevronUp className="w-4 h-4 text-stone-400" /> : <ChevronDown className="w-4 h-4 text-stone-400" />}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden border-t border-stone-100"
+          >
+            <ol className="divide-y divide-stone-50">
+              {trace.steps.map((item, i) => (
+                <li key={i} className="px-6 py-3 flex justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm text-stone-700 font-medium">{item.label}</p>
+                    {item.formula && <p className="text-xs text-stone-400 font-mono break-words">{item.formula}</p>}
+                  </div>
+                  <span className="text-sm font-mono font-semibold text-stone-900 whitespace-nowrap">{formatTraceValue(item)}</span>
+                </li>
+              ))}
+            </ol>
+
+            {inss && inss.brackets.length > 0 && (
+              <div className="p-6 border-t border-stone-100 space-y-3">
+                <p className="text-[10px] uppercase font-bold tracking-wider text-stone-400">INSS por faixa sobre {brl(inss.salary)}</p>
+                <table className="w-full text-xs">
+                  <thead className="text-stone-400 text-left">
+                    <tr>
+                      <th className="py-1 font-medium">Faixa</th>
+                      <th className="py-1 font-medium text-right">Base</th>
+                      <th className="py-1 font-medium text-right">Alíquota</th>
+                      <th className="py-1 font-medium text-right">Contribuição</th>
+                    </tr>
+                  </thead>
+                  <tbody className="font-mono text-stone-600">
+                    {inss.brackets.map((bracket) => (
+                      <tr key={bracket.upTo}>
+                        <td className="py-1">{brl(bracket.from)} a {brl(bracket.upTo)}</td>
+                        <td className="py-1 text-right">{brl(bracket.base)}</td>
+                        <td className="py-1 text-right">{percent(bracket.rate)}</td>
+                        <td className="py-1 text-right">{brl(bracket.amount)}</td>
+                      </tr>
+                    ))}
+                    {roundingAdjustment !== 0 && (
+                      <tr className="text-stone-400">
+                        <td className="py-1" colSpan={3}>Arredondamento</td>
+                        <td className="py-1 text-right">{brl(roundingAdjustment)}</td>
+                      </tr>
+                    )}
+                  </tbody>
+                  <tfoot className="font-mono font-bold text-stone-900 border-t border-stone-200">
+                    <tr>
+                      <td className="py-1" colSpan={3}>INSS</td>
+                      <td className="py-1 text-right">{brl(inss.inss)}</td>
+                    </tr>
+                  </tfoot>
+                </table>
+                {inss.ceilingApplied && (
+                  <p className="text-[10px] text-stone-400">Base limitada ao teto de {brl(inss.brackets[inss.brackets.length - 1].upTo)}.</p>
+                )}
+              </div>
+            )}
+
+            {irrf && (
+              <div className="p-6 border-t border-stone-100 space-y-2 text-xs">
+                <p className="text-[10px] uppercase font-bold tracking-wider text-stone-400">
+                  IRRF · {irrf.method === 'simplified' ? 'Desconto simplificado' : 'Deduções legais'}
+                </p>
+                {[
+                  ['Rendimento tributável', brl(irrf.income)],
+                  ...(irrf.method === 'simplified'
+                    ? [['Desconto simplificado', `- ${brl(irrf.deductions)}`]]
+                    : [
+                        ['INSS', `- ${brl(irrf.inss)}`],
+                        ...(irrf.dependents > 0 ? [[`Dependentes (${irrf.dependents})`, `- ${brl(irrf.dependentsDeduction)}`]] : []),
+                        ...(irrf.alimony > 0 ? [['Pensão alimentícia', `- ${brl(irrf.alimony)}`]] : []),
+                        ...(irrf.privatePension > 0 ? [['Previdência privada', `- ${brl(irrf.privatePension)}`]] : [])
+                      ]),
+                  ['Base de cálculo', brl(irrf.base)],
+                  ['Alíquota da faixa', percent(irrf.rate)],
+                  ['Parcela a deduzir', `- ${brl(irrf.parcelaDeduzir)}`],
+                  ['Imposto pela tabela', brl(irrf.taxBeforeReduction)],
+                  ...(irrf.reduction > 0 ? [['Redução da Lei 15.270/2025', `- ${brl(irrf.reduction)}`]] : [])
+                ].map(([label, value]) => (
+                  <div key={label} className="flex justify-between">
+                    <span className="text-stone-400">{label}</span>
+                    <span className="text-stone-600 font-mono">{value}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between pt-2 border-t border-stone-200 font-bold text-stone-900">
+                  <span>IRRF</span>
+                  <span className="font-mono">{brl(irrf.irrf)}</span>
+                </div>
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { DEDUCTION_LABELS, DeductionType, PayrollDeduction } from '../lib/deductions';
+
+const inputClass = "w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium text-sm";
+
+const VALUE_LABELS: Partial<Record<DeductionType, string>> = {
+  'vale-transporte': 'Custo do benefício',
+  'vale-refeicao': 'Valor do benefício',
+  'vale-alimentacao': 'Valor do benefício',
+  'consignado': 'Parcela'
+};
+
+function defaultsFor(type: DeductionType): PayrollDeduction {
+  if (type === 'vale-refeicao' || type === 'vale-alimentacao') return { type, value: 0, percentage: 20 };
+  if (type === 'pensao-alimenticia') return { type, value: 0, percentage: 30, alimonyBase: 'liquido' };
+  return { type, value: 0 };
+}
+
+export default function DeductionsEditor({
+  deductions,
+  onChange
+}: {
+  deductions: PayrollDeduction[];
+  onChange: (deductions: PayrollDeduction[]) => void;
+}) {
+  const update = (index: number, patch: Partial<PayrollDeduction>) =>
+    onChange(deductions.map((deduction, i) => i === index ? { ...deduction, ...patch } : deduction));
+
+  const numberValue = (e: React.ChangeEvent<HTMLInputElement>) => Math.max(0, Number(e.target.value) || 0);
+
+  return (
+    <div className="space-y-3">
+      {deductions.map((deduction, index) => (
+        <div key={index} className="p-3 bg-stone-50 rounded-xl border border-stone-200 space-y-2">
+          <div className="flex gap-2">
+            <select
+              value={deduction.type}
+              onChange={(e) => onChange(deductions.map((d, i) => i === index ? defaultsFor(e.target.value as DeductionType) : d))}
+              className={`${inputClass} bg-white appearance-none`}
+            >
+              {(Object.keys(DEDUCTION_LABELS) as DeductionType[]).map((type) => (
+                <option key={type} value={type}>{DEDUCTION_LABELS[type]}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange(deductions.filter((_, i) => i !== index))}
+              className="p-2 text-stone-400 hover:text-red-500 transition-colors shrink-0"
+              aria-label="Remover desconto"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          {deduction.type === 'pensao-alimenticia' ? (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="relative">
+                <input type="number" min="0" max="100" value={deduction.percentage ?? 0} onChange={(e) => update(index, { percentage: numberValue(e) })} className={`${inputClass} bg-white pr-8`} />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-stone-400 text-sm font-medium">%</span>
+              </div>
+              <select
+                value={deduction.alimonyBase ?? 'liquido'}
+                onChange={(e) => update(index, { alimonyBase: e.target.value as PayrollDeduction['alimonyBase'] })}
+                className={`${inputClass} bg-white appearance-none`}
+              >
+                <option value="liquido">do líquido</option>
+                <option value="bruto">do bruto</option>
+              </select>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="relative col-span-1">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 text-sm font-medium">R$</span>
+                <input
+                  type="number"
+                  min="0"
+                  value={deduction.value}
+                  onChange={(e) => update(index, { value: numberValue(e) })}
+                  className={`${inputClass} bg-white pl-9`}
+                  placeholder={VALUE_LABELS[deduction.type] ?? 'Valor'}
+                  title={VALUE_LABELS[deduction.type] ?? 'Valor'}
+                />
+              </div>
+              {(deduction.type === 'vale-refeicao' || deduction.type === 'vale-alimentacao') && (
+                <div className="relative">
+                  <input type="number" min="0" max="100" value={deduction.percentage ?? 0} onChange={(e) => update(index, { percentage: numberValue(e) })} className={`${inputClass} bg-white pr-8`} title="Participação do empregado" />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-stone-400 text-sm font-medium">%</span>
+                </div>
+              )}
+              {deduction.type === 'vale-transporte' && (
+                <p className="text-[10px] text-stone-400 font-medium self-center">Limitado a 6% do salário base</p>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...deductions, defaultsFor('vale-transporte')])}
+        className="w-full flex items-center justify-center gap-2 p-3 bg-stone-50 border border-dashed border-stone-300 rounded-xl text-sm font-medium text-stone-500 hover:border-emerald-500 hover:text-emerald-700 transition-colors"
+      >
+        <Plus className="w-4 h-4" /> Adicionar Desconto
+      </button>
+    </div>
+  );
+}
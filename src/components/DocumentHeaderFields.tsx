@@ -0,0 +1,35 @@
+import React from 'react';
+import { DocumentHeader } from '../lib/payslip';
+
+const inputClass = "w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium text-sm";
+
+const FIELDS: { key: keyof DocumentHeader; label: string }[] = [
+  { key: 'employerName', label: 'Empregador' },
+  { key: 'employerDocument', label: 'CNPJ/CPF' },
+  { key: 'employeeName', label: 'Empregado' },
+  { key: 'employeeRole', label: 'Cargo' }
+];
+
+export default function DocumentHeaderFields({
+  header,
+  onChange
+}: {
+  header: DocumentHeader;
+  onChange: (header: DocumentHeader) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {FIELDS.map(({ key, label }) => (
+        <div key={key}>
+          <label className="block text-xs font-medium text-stone-500 mb-1">{label}</label>
+          <input
+            type="text"
+            value={header[key]}
+            onChange={(e) => onChange({ ...header, [key]: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import React from 'react';
+import { Download, Printer, X } from 'lucide-react';
+import { DocumentHeader, formatCompetence, Payslip, renderPayslipPdf } from '../lib/payslip';
+import { formatMoney } from '../lib/utils';
+import DocumentHeaderFields from './DocumentHeaderFields';
+
+export default function PayslipDialog({
+  payslip,
+  onHeaderChange,
+  onClose
+}: {
+  payslip: Payslip;
+  onHeaderChange: (header: DocumentHeader) => void;
+  onClose: () => void;
+}) {
+  const { header } = payslip;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-stone-900/40 backdrop-blur-sm overflow-y-auto print:static print:bg-white print:backdrop-blur-none">
+      <div className="max-w-3xl mx-auto my-8 bg-white rounded-3xl shadow-2xl overflow-hidden print:my-0 print:shadow-none print:rounded-none">
+        <div className="p-6 border-b border-stone-100 space-y-4 print:hidden">
+          <div className="flex justify-between items-center">
+            <h3 className="font-bold text-lg">Holerite</h3>
+            <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-900 transition-colors" aria-label="Fechar">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <DocumentHeaderFields header={header} onChange={onHeaderChange} />
+          <div className="flex gap-3">
+            <button
+              onClick={() => window.print()}
+              className="flex-1 flex items-center justify-center gap-2 py-2.5 bg-stone-100 rounded-xl text-sm font-semibold text-stone-700 hover:bg-stone-200 transition-colors"
+            >
+              <Printer className="w-4 h-4" /> Imprimir
+            </button>
+            <button
+              onClick={() => renderPayslipPdf(payslip).save(`holerite-${payslip.competence}.pdf`)}
+              className="flex-1 flex items-center justify-center gap-2 py-2.5 bg-emerald-600 rounded-xl text-sm font-semibold text-white hover:bg-emerald-700 transition-colors"
+            >
+              <Download className="w-4 h-4" /> Baixar PDF
+            </button>
+          </div>
+        </div>
+
+        <div className="print-area p-6 sm:p-8 text-stone-900 text-xs sm:text-sm">
+          <div className="flex justify-between items-start border-b-2 border-stone-900 pb-3">
+            <h2 className="font-bold text-base sm:text-lg">Recibo de Pagamento de Salário</h2>
+            <span className="font-semibold capitalize">{formatCompetence(payslip.competence)}</span>
+          </div>
+          <div className="grid grid-cols-2 gap-x-6 gap-y-1 py-3 border-b border-stone-300">
+            <p><span className="text-stone-500">Empregador:</span> {header.employerName || '-'}</p>
+            <p><span className="text-stone-500">CNPJ/CPF:</span> {header.employerDocument || '-'}</p>
+            <p><span className="text-stone-500">Empregado:</span> {header.employeeName || '-'}</p>
+            <p><span className="text-stone-500">Cargo:</span> {header.employeeRole || '-'}</p>
+          </div>
+
+          <table className="w-full my-3">
+            <thead>
+              <tr className="border-b border-stone-300 text-left text-[10px] uppercase tracking-wider text-stone-500">
+                <th className="py-2 w-12">Cód.</th>
+                <th className="py-2">Descrição</th>
+                <th className="py-2 text-right">Referência</th>
+                <th className="py-2 text-right">Vencimentos</th>
+                <th className="py-2 text-right">Descontos</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {payslip.lines.map((line, index) => (
+                <tr key={index} className="border-b border-stone-100">
+                  <td className="py-1.5">{line.code}</td>
+                  <td className="py-1.5 font-sans">{line.description}</td>
+                  <td className="py-1.5 text-right">{line.reference}</td>
+                  <td className="py-1.5 text-right">{line.earning > 0 ? formatMoney(line.earning) : ''}</td>
+                  <td className="py-1.5 text-right">{line.deduction > 0 ? formatMoney(line.deduction) : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot className="font-mono font-bold">
+              <tr className="border-t border-stone-300">
+                <td />
+                <td className="py-2 font-sans">Totais</td>
+                <td />
+                <td className="py-2 text-right">{formatMoney(payslip.totalEarnings)}</td>
+                <td className="py-2 text-right">{formatMoney(payslip.totalDeductions)}</td>
+              </tr>
+              <tr>
+                <td />
+                <td className="py-2 font-sans">Valor Líquido</td>
+                <td />
+                <td />
+                <td className="py-2 text-right">R$ {formatMoney(payslip.netPay)}</td>
+              </tr>
+            </tfoot>
+          </table>
+
+          <div className="grid grid-cols-5 gap-2 py-3 border-t-2 border-stone-900">
+            {([
+              ['Salário Base', payslip.baseSalary],
+              ['Base INSS', payslip.inssBase],
+              ['Base FGTS', payslip.fgtsBase],
+              ['FGTS do Mês', payslip.fgtsDeposit],
+              ['Base IRRF', payslip.irrfBase]
+            ] as [string, number][]).map(([label, value]) => (
+              <div key={label}>
+                <p className="text-[9px] uppercase tracking-wider text-stone-500">{label}</p>
+                <p className="font-mono font-semibold">{formatMoney(value)}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between items-end pt-10 text-[10px] text-stone-500">
+            <span>Tabelas INSS/IRRF: {payslip.tableVersion}</span>
+            <span className="border-t border-stone-400 pt-1 w-48 text-center">Assinatura do empregado</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
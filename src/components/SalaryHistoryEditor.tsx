@@ -0,0 +1,59 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { SalaryChange } from '../lib/fgts';
+
+const inputClass = "w-full px-3 py-2 bg-white border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium text-sm";
+
+export default function SalaryHistoryEditor({
+  history,
+  defaultFrom,
+  onChange
+}: {
+  history: SalaryChange[];
+  defaultFrom: string;
+  onChange: (history: SalaryChange[]) => void;
+}) {
+  const update = (index: number, patch: Partial<SalaryChange>) =>
+    onChange(history.map((change, i) => i === index ? { ...change, ...patch } : change));
+
+  return (
+    <div className="space-y-2">
+      {history.map((change, index) => (
+        <div key={index} className="flex gap-2">
+          <input
+            type="month"
+            value={change.from}
+            onChange={(e) => update(index, { from: e.target.value })}
+            className={inputClass}
+            title="A partir de"
+          />
+          <div className="relative w-full">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400 text-sm font-medium">R$</span>
+            <input
+              type="number"
+              min="0"
+              value={change.salary}
+              onChange={(e) => update(index, { salary: Math.max(0, Number(e.target.value) || 0) })}
+              className={`${inputClass} pl-9`}
+              title="Salário"
+            />
+          </div>
+          <button
+            onClick={() => onChange(history.filter((_, i) => i !== index))}
+            className="p-2 text-stone-400 hover:text-red-500 transition-colors shrink-0"
+            aria-label="Remover reajuste"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={() => onChange([...history, { from: defaultFrom, salary: 0 }])}
+        className="w-full flex items-center justify-center gap-2 p-3 bg-white border border-dashed border-stone-300 rounded-xl text-sm font-medium text-stone-500 hover:border-emerald-500 hover:text-emerald-700 transition-colors"
+      >
+        <Plus className="w-4 h-4" /> Adicionar Reajuste
+      </button>
+    </div>
+  );
+}
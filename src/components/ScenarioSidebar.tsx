@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { AlertCircle, Copy, FolderOpen, Save, Trash2, X } from 'lucide-react';
+import { Tab } from '../lib/inputs';
+import { Scenario, ScenarioDraft, ScenarioSummary } from '../lib/scenarios';
+import { deleteScenario, duplicateScenario, getScenario, listScenarios, saveScenario } from '../lib/scenariosApi';
+
+const inputClass = "w-full px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl focus:ring-2 focus:ring-emerald-500/20 focus:border-emerald-500 outline-none transition-all font-medium text-sm";
+
+export default function ScenarioSidebar({
+  tabLabels,
+  buildDraft,
+  onOpen,
+  onClose
+}: {
+  tabLabels: Record<Tab, string>;
+  buildDraft: (name: string, employee: string) => ScenarioDraft;
+  onOpen: (scenario: Scenario) => void;
+  onClose: () => void;
+}) {
+  const [scenarios, setScenarios] = useState<ScenarioSummary[]>([]);
+  const [name, setName] = useState<string>('');
+  const [employee, setEmployee] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  // Every action reloads the list, so it always reflects the database
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setScenarios(await listScenarios());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Erro inesperado');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    run(async () => undefined);
+  }, []);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await saveScenario(buildDraft(name, employee));
+      setName('');
+    });
+  };
+
+  const handleOpen = (id: number) => run(async () => {
+    onOpen(await getScenario(id));
+    onClose();
+  });
+
+  const employees = [...new Set(scenarios.map((scenario) => scenario.employee))];
+
+  return (
+    <div className="fixed inset-0 z-40 bg-stone-900/20 print:hidden" onClick={onClose}>
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        transition={{ duration: 0.25, ease: "easeOut" }}
+        onClick={(e) => e.stopPropagation()}
+        className="absolute right-0 top-0 h-full w-full max-w-sm bg-white shadow-2xl flex flex-col"
+      >
+        <div className="p-6 border-b border-stone-100 flex justify-between items-center">
+          <h3 className="font-bold text-lg">Cenários Salvos</h3>
+          <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-900 transition-colors" aria-label="Fechar">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSave} className="p-6 border-b border-stone-100 space-y-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={inputClass}
+            placeholder="Nome do cenário (ex.: rescisão março)"
+          />
+          <input
+            type="text"
+            value={employee}
+            onChange={(e) => setEmployee(e.target.value)}
+            className={inputClass}
+            placeholder="Empregado"
+            list="scenario-employees"
+          />
+          <datalist id="scenario-employees">
+            {employees.map((value) => <option key={value} value={value} />)}
+          </datalist>
+          <button
+            type="submit"
+            disabled={busy || !name.trim()}
+            className="w-full flex items-center justify-center gap-2 py-2.5 bg-emerald-600 rounded-xl text-sm font-semibold text-white hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+          >
+            <Save className="w-4 h-4" /> Salvar Cenário Atual
+          </button>
+        </form>
+
+        {error && (
+          <div className="mx-6 mt-4 p-3 bg-red-50 rounded-xl text-xs text-red-700 font-medium flex items-center gap-2">
+            <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {scenarios.length === 0 && !busy && (
+            <p className="text-sm text-stone-400 text-center">Nenhum cenário salvo.</p>
+          )}
+          {employees.map((group) => (
+            <div key={group}>
+              <p className="text-[10px] uppercase font-bold tracking-wider text-stone-400 mb-2">{group || 'Sem empregado'}</p>
+              <div className="space-y-2">
+                {scenarios.filter((scenario) => scenario.employee === group).map((scenario) => (
+                  <div key={scenario.id} className="p-3 bg-stone-50 rounded-xl border border-stone-200 flex items-center gap-2">
+                    <button onClick={() => handleOpen(scenario.id)} className="flex-1 min-w-0 text-left group" disabled={busy}>
+                      <p className="text-sm font-semibold truncate group-hover:text-emerald-700 transition-colors">{scenario.name}</p>
+                      <p className="text-[10px] text-stone-400 mt-0.5">
+                        {tabLabels[scenario.tab]} · Tabelas {scenario.tableVersion} · {new Date(scenario.updatedAt).toLocaleDateString()}
+                      </p>
+                    </button>
+                    <button onClick={() => handleOpen(scenario.id)} className="p-1.5 text-stone-400 hover:text-emerald-600 transition-colors" aria-label="Abrir" disabled={busy}>
+                      <FolderOpen className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => run(() => duplicateScenario(scenario.id))} className="p-1.5 text-stone-400 hover:text-stone-900 transition-colors" aria-label="Duplicar" disabled={busy}>
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => window.confirm(`Excluir "${scenario.name}"?`) && run(() => deleteScenario(scenario.id))} className="p-1.5 text-stone-400 hover:text-red-500 transition-colors" aria-label="Excluir" disabled={busy}>
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </motion.aside>
+    </div>
+  );
+}
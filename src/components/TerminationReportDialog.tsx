@@ -0,0 +1,154 @@
+import React from 'react';
+import { Download, FileJson, Printer, X } from 'lucide-react';
+import { DocumentHeader } from '../lib/payslip';
+import { formatReportDate, renderTerminationReportPdf, TerminationReport, TerminationReportLine } from '../lib/terminationReport';
+import { downloadFile, formatMoney } from '../lib/utils';
+import DocumentHeaderFields from './DocumentHeaderFields';
+
+function ReportLines({ lines }: { lines: TerminationReportLine[] }) {
+  return (
+    <tbody>
+      {lines.map((line) => (
+        <tr key={line.code} className="border-b border-stone-100">
+          <td className="py-1.5 font-mono w-14">{line.code}</td>
+          <td className="py-1.5">{line.description}</td>
+          <td className="py-1.5 text-stone-500 text-[10px] sm:text-xs">{line.legalReference}</td>
+          <td className="py-1.5 text-right font-mono">{formatMoney(line.amount)}</td>
+        </tr>
+      ))}
+    </tbody>
+  );
+}
+
+export default function TerminationReportDialog({
+  report,
+  onHeaderChange,
+  onClose
+}: {
+  report: TerminationReport;
+  onHeaderChange: (header: DocumentHeader) => void;
+  onClose: () => void;
+}) {
+  const { header, contract } = report;
+  const filename = `trct-${contract.endDate}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-stone-900/40 backdrop-blur-sm overflow-y-auto print:static print:bg-white print:backdrop-blur-none">
+      <div className="max-w-3xl mx-auto my-8 bg-white rounded-3xl shadow-2xl overflow-hidden print:my-0 print:shadow-none print:rounded-none">
+        <div className="p-6 border-b border-stone-100 space-y-4 print:hidden">
+          <div className="flex justify-between items-center">
+            <h3 className="font-bold text-lg">Termo de Rescisão</h3>
+            <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-900 transition-colors" aria-label="Fechar">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <DocumentHeaderFields header={header} onChange={onHeaderChange} />
+          <div className="grid grid-cols-3 gap-3">
+            <button
+              onClick={() => window.print()}
+              className="flex items-center justify-center gap-2 py-2.5 bg-stone-100 rounded-xl text-sm font-semibold text-stone-700 hover:bg-stone-200 transition-colors"
+            >
+              <Printer className="w-4 h-4" /> Imprimir
+            </button>
+            <button
+              onClick={() => downloadFile(`${filename}.json`, JSON.stringify(report, null, 2), 'application/json')}
+              className="flex items-center justify-center gap-2 py-2.5 bg-stone-100 rounded-xl text-sm font-semibold text-stone-700 hover:bg-stone-200 transition-colors"
+            >
+              <FileJson className="w-4 h-4" /> JSON
+            </button>
+            <button
+              onClick={() => renderTerminationReportPdf(report).save(`${filename}.pdf`)}
+              className="flex items-center justify-center gap-2 py-2.5 bg-emerald-600 rounded-xl text-sm font-semibold text-white hover:bg-emerald-700 transition-colors"
+            >
+              <Download className="w-4 h-4" /> PDF
+            </button>
+          </div>
+        </div>
+
+        <div className="print-area p-6 sm:p-8 text-stone-900 text-xs sm:text-sm">
+          <h2 className="font-bold text-base sm:text-lg border-b-2 border-stone-900 pb-3">Termo de Rescisão do Contrato de Trabalho</h2>
+          <div className="grid grid-cols-2 gap-x-6 gap-y-1 py-3 border-b border-stone-300">
+            <p><span className="text-stone-500">Empregador:</span> {header.employerName || '-'}</p>
+            <p><span className="text-stone-500">CNPJ/CPF:</span> {header.employerDocument || '-'}</p>
+            <p><span className="text-stone-500">Empregado:</span> {header.employeeName || '-'}</p>
+            <p><span className="text-stone-500">Cargo:</span> {header.employeeRole || '-'}</p>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 py-3 border-b border-stone-300">
+            {([
+              ['Admissão', formatReportDate(contract.admissionDate)],
+              ['Aviso Prévio', formatReportDate(contract.noticeDate)],
+              ['Afastamento', formatReportDate(contract.endDate)],
+              ['Data Projetada', formatReportDate(contract.projectedEndDate)],
+              ['Causa', `${contract.causeCode} · ${contract.causeDescription}`],
+              ['Remuneração', formatMoney(contract.baseSalary)]
+            ] as [string, string][]).map(([label, value]) => (
+              <div key={label}>
+                <p className="text-[9px] uppercase tracking-wider text-stone-500">{label}</p>
+                <p className="font-semibold">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          <table className="w-full my-3">
+            <thead>
+              <tr className="border-b border-stone-300 text-left text-[10px] uppercase tracking-wider text-stone-500">
+                <th className="py-2" colSpan={3}>Verbas Rescisórias</th>
+                <th className="py-2 text-right">Valor</th>
+              </tr>
+            </thead>
+            <ReportLines lines={report.earnings} />
+            <tbody>
+              <tr className="font-bold">
+                <td />
+                <td className="py-2" colSpan={2}>Total Bruto</td>
+                <td className="py-2 text-right font-mono">{formatMoney(report.totalEarnings)}</td>
+              </tr>
+            </tbody>
+            <thead>
+              <tr className="border-b border-stone-300 text-left text-[10px] uppercase tracking-wider text-stone-500">
+                <th className="py-2" colSpan={4}>Deduções</th>
+              </tr>
+            </thead>
+            <ReportLines lines={report.deductions} />
+            <tbody>
+              <tr className="font-bold">
+                <td />
+                <td className="py-2" colSpan={2}>Total de Deduções</td>
+                <td className="py-2 text-right font-mono">{formatMoney(report.totalDeductions)}</td>
+              </tr>
+              <tr className="font-bold border-t-2 border-stone-900">
+                <td />
+                <td className="py-2" colSpan={2}>Valor Líquido</td>
+                <td className="py-2 text-right font-mono">R$ {formatMoney(report.netPayable)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 py-3 border-t border-stone-300">
+            {([
+              ['Base INSS', report.bases.inss],
+              ['Base IRRF', report.bases.irrf],
+              ['FGTS da Rescisão', report.fgts.deposit],
+              [`Multa FGTS (${report.fgts.fineRate * 100}%)`, report.fgts.fine]
+            ] as [string, number][]).map(([label, value]) => (
+              <div key={label}>
+                <p className="text-[9px] uppercase tracking-wider text-stone-500">{label}</p>
+                <p className="font-mono font-semibold">{formatMoney(value)}</p>
+              </div>
+            ))}
+          </div>
+
+          <p className="py-3 font-semibold">
+            Prazo para pagamento: {formatReportDate(report.paymentDeadline)} <span className="text-stone-500 font-normal">(CLT, art. 477, § 6º)</span>
+          </p>
+
+          <div className="grid grid-cols-2 gap-12 pt-10 text-[10px] text-stone-500 text-center">
+            <span className="border-t border-stone-400 pt-1">Assinatura do empregador</span>
+            <span className="border-t border-stone-400 pt-1">Assinatura do empregado</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { AlertCircle } from 'lucide-react';
+import { cn, formatHours } from '../lib/utils';
+import { TimesheetSummary } from '../lib/timesheet';
+
+export default function TimesheetTable({ summary }: { summary: TimesheetSummary }) {
+  const irregularDays = summary.days.filter((day) => day.issues.length > 0).length;
+
+  return (
+    <div className="bg-white rounded-2xl border border-stone-200 overflow-hidden">
+      <div className="p-6 border-b border-stone-100 flex justify-between items-center">
+        <h4 className="font-semibold">Folha de Ponto</h4>
+        <span className="text-xs text-stone-400 font-mono">
+          JORNADA: {formatHours(summary.dailyHours)}/DIA · {formatHours(summary.weeklyHours)}/SEM
+        </span>
+      </div>
+
+      {(summary.errors.length > 0 || irregularDays > 0) && (
+        <div className="p-4 sm:px-6 bg-amber-50 border-b border-amber-100 text-xs text-amber-800 space-y-1">
+          {irregularDays > 0 && (
+            <p className="flex items-center gap-1 font-medium">
+              <AlertCircle className="w-3 h-3" /> {irregularDays} dia(s) com marcações irregulares
+            </p>
+          )}
+          {summary.errors.map((error) => (
+            <p key={`${error.line}-${error.message}`}>Linha {error.line}: {error.message}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs sm:text-sm">
+          <thead className="bg-stone-50 text-stone-400 text-[10px] uppercase tracking-wider">
+            <tr>
+              <th className="px-4 py-3 text-left font-bold">Data</th>
+              <th className="px-4 py-3 text-left font-bold">Marcações</th>
+              <th className="px-4 py-3 text-right font-bold">Trab.</th>
+              <th className="px-4 py-3 text-right font-bold">Not.</th>
+              <th className="px-4 py-3 text-right font-bold">HE 50%</th>
+              <th className="px-4 py-3 text-right font-bold">HE 100%</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-stone-50">
+            {summary.days.map((day, i) => (
+              <tr key={i} className={cn(day.issues.length > 0 && "bg-red-50/50")}>
+                <td className="px-4 py-3 font-medium whitespace-nowrap">
+                  {day.date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit', weekday: 'short' })}
+                  {day.issues.map((issue) => (
+                    <p key={issue} className="text-[10px] text-red-500 font-medium whitespace-normal">{issue}</p>
+                  ))}
+                </td>
+                <td className="px-4 py-3 font-mono text-stone-500 whitespace-nowrap">{day.punches.join(' ')}</td>
+                <td className="px-4 py-3 font-mono text-right">{formatHours(day.workedHours)}</td>
+                <td className="px-4 py-3 font-mono text-right">{formatHours(day.nightHours)}</td>
+                <td className="px-4 py-3 font-mono text-right">{formatHours(day.overtime50)}</td>
+                <td className={cn("px-4 py-3 font-mono text-right", day.restDay && "text-emerald-600")}>{formatHours(day.overtime100)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-stone-50 font-bold">
+            <tr>
+              <td className="px-4 py-3" colSpan={2}>Total</td>
+              <td className="px-4 py-3 font-mono text-right">{formatHours(summary.workedHours)}</td>
+              <td className="px-4 py-3 font-mono text-right">{formatHours(summary.nightHours)}</td>
+              <td className="px-4 py-3 font-mono text-right">{formatHours(summary.overtime50)}</td>
+              <td className="px-4 py-3 font-mono text-right">{formatHours(summary.overtime100)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { applyInterpretation, createStubModel, explainResult, interpretRequest } from './assistant';
+import { defaultInputs } from './inputs';
+
+const MESSAGE = 'Fui demitido sem justa causa, entrei em março de 2021, ganho 4.200 e tenho 12 dias de férias vencidas';
+const TODAY = new Date(2026, 2, 15);
+
+const model = createStubModel({
+  json: () => ({
+    tab: 'termination',
+    inputs: {
+      grossSalary: 4200,
+      startDate: '2021-03-01',
+      endDate: '2026-03-15',
+      terminationType: 'sem-justa-causa',
+      dependents: -1,
+      salaryHint: 4200
+    },
+    notes: ['12 dias de férias vencidas']
+  }),
+  text: (prompt) => prompt
+});
+
+test('applies the valid fields of the reply to the termination tab', async () => {
+  const interpretation = await interpretRequest(model, MESSAGE, TODAY);
+  assert.deepEqual(interpretation.rejected, ['salaryHint', 'dependents']);
+
+  const current = defaultInputs(TODAY);
+  const inputs = applyInterpretation(current, interpretation.tab, interpretation.inputs);
+  assert.equal(inputs.tab, 'termination');
+  assert.equal(inputs.grossSalary, 4200);
+  assert.equal(inputs.startDate, '2021-03-01');
+  assert.equal(inputs.terminationType, 'sem-justa-causa');
+  assert.equal(inputs.dependents, current.dependents);
+  assert.equal(inputs.takenVacationPeriods, current.takenVacationPeriods);
+});
+
+test('tells the explanation which parts of the request were left out', async () => {
+  const { tab, notes } = await interpretRequest(model, MESSAGE, TODAY);
+  assert.deepEqual(notes, ['12 dias de férias vencidas']);
+
+  const prompt = await explainResult(model, MESSAGE, tab, {}, notes);
+  assert.match(prompt, /Ficaram fora do cálculo.*12 dias de férias vencidas/);
+});
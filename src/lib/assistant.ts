@@ -0,0 +1,204 @@
+import type { GoogleGenAI } from '@google/genai';
+import { format } from 'date-fns';
+import { HAZARDS, TERMINATION_TYPES } from './calculator';
+import { PJ_REGIMES } from './cltVsPj';
+import { DEDUCTION_LABELS } from './deductions';
+import { TAX_REGIME_LABELS } from './employerCost';
+import { CalculatorInputs, sanitizeInputs, Tab, TABS, validateInputFields } from './inputs';
+
+// The assistant only turns text into calculator inputs and explains results
+// computed locally; no amount ever comes from the model. Anything that
+// answers these two calls can stand in for Gemini.
+export interface AssistantModel {
+  generateJson(prompt: string, schema: object): Promise<unknown>;
+  generateText(prompt: string): Promise<string>;
+}
+
+export interface AssistantInterpretation {
+  tab: Tab;
+  inputs: Partial<CalculatorInputs>;
+  // Fields the model sent that are unknown or failed validation
+  rejected: string[];
+  // Parts of the request no field covers; they are left out of the
+  // calculation and the explanation says so
+  notes: string[];
+}
+
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const TAB_DESCRIPTIONS: Record<Tab, string> = {
+  salary: 'salário líquido mensal, com INSS, IRRF e descontos em folha',
+  hours: 'horas extras, adicional noturno e DSR',
+  vacation: 'férias, 1/3 constitucional, abono pecuniário e férias vencidas',
+  thirteenth: '13º salário e suas parcelas',
+  termination: 'rescisão do contrato: demissão, pedido de demissão ou acordo',
+  unemployment: 'seguro-desemprego',
+  employer: 'custo do empregado para a empresa',
+  compare: 'comparação entre CLT e PJ'
+};
+
+type JsonSchema = { description?: string; [keyword: string]: unknown };
+
+const amount = (description: string): JsonSchema => ({ type: 'number', minimum: 0, description });
+const count = (description: string): JsonSchema => ({ type: 'integer', minimum: 0, description });
+const month = (description: string): JsonSchema => ({ type: 'string', description });
+const date = (description: string): JsonSchema => ({ type: 'string', format: 'date', description });
+const choice = (options: readonly string[], description: string): JsonSchema => ({ type: 'string', enum: options, description });
+const flag = (description: string): JsonSchema => ({ type: 'boolean', description });
+
+// The inputs the model may fill, as JSON Schema. Descriptions double as the
+// labels the assistant panel shows for the fields it filled.
+export const ASSISTANT_FIELDS: Partial<Record<keyof CalculatorInputs, JsonSchema>> = {
+  competence: month('Competência YYYY-MM das tabelas de INSS e IRRF'),
+  grossSalary: amount('Salário bruto mensal'),
+  dependents: count('Dependentes para o IRRF'),
+  bonuses: amount('Bônus e comissões do mês'),
+  hazard: choice(HAZARDS, 'Adicional de insalubridade ou periculosidade'),
+  deductions: {
+    type: 'array',
+    description: 'Descontos em folha',
+    items: {
+      type: 'object',
+      properties: {
+        type: choice(Object.keys(DEDUCTION_LABELS), 'Tipo de desconto'),
+        value: amount('Valor do desconto; para vale-transporte, o custo do benefício'),
+        percentage: amount('Percentual da pensão alimentícia ou da coparticipação em VR/VA'),
+        alimonyBase: choice(['bruto', 'liquido'], 'Base da pensão alimentícia')
+      },
+      required: ['type', 'value']
+    }
+  },
+  monthlyHours: amount('Jornada mensal em horas'),
+  overtimeHours: amount('Horas extras no mês'),
+  overtimePercent: amount('Adicional das horas extras em %'),
+  nightHours: amount('Horas trabalhadas entre 22h e 5h'),
+  vacationDays: { type: 'integer', minimum: 1, maximum: 30, description: 'Dias de férias gozados' },
+  sellTenDays: flag('Venda de 10 dias de férias (abono pecuniário)'),
+  unusedVacationDays: amount('Dias de férias vencidas a pagar junto com as férias; só na calculadora de férias'),
+  variableAverage: amount('Média das verbas variáveis para o 13º'),
+  taxRegime: choice(Object.keys(TAX_REGIME_LABELS), 'Regime tributário da empresa'),
+  employerBenefits: amount('Benefícios mensais pagos pela empresa'),
+  pjRevenue: amount('Faturamento mensal como PJ'),
+  pjRegime: choice(PJ_REGIMES, 'Regime do PJ'),
+  proLabore: amount('Pró-labore mensal do PJ'),
+  accountantCost: amount('Custo mensal do contador'),
+  terminationType: choice(TERMINATION_TYPES, 'Tipo de rescisão'),
+  startDate: date('Data de admissão YYYY-MM-DD'),
+  endDate: date('Data de desligamento YYYY-MM-DD'),
+  fgtsBalance: amount('Saldo do FGTS antes da rescisão'),
+  noticeWorked: flag('Aviso prévio trabalhado'),
+  takenVacationPeriods: count('Períodos aquisitivos de férias já gozados'),
+  lastSalaries: { type: 'array', items: amount('Salário'), minItems: 3, maxItems: 3, description: 'Três últimos salários, do mais antigo ao mais recente' },
+  monthsWorked: count('Meses trabalhados nos últimos 36 meses'),
+  previousClaims: { type: 'integer', minimum: 0, maximum: 2, description: 'Vezes que já pediu o seguro-desemprego' }
+};
+
+const REPLY_SCHEMA = {
+  type: 'object',
+  properties: {
+    tab: choice(TABS, 'Calculadora que responde ao pedido'),
+    inputs: { type: 'object', properties: ASSISTANT_FIELDS },
+    notes: { type: 'array', items: { type: 'string' }, description: 'Informações do pedido que nenhum campo cobre' }
+  },
+  required: ['tab', 'inputs']
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks the model reply against the calculator's own input validation;
+// invalid fields are dropped and reported instead of being applied
+export function parseAssistantReply(reply: unknown): AssistantInterpretation {
+  if (!isRecord(reply) || !(TABS as unknown[]).includes(reply.tab)) {
+    throw new Error('O assistente não identificou qual cálculo fazer. Tente descrever o pedido de outra forma.');
+  }
+  const raw = isRecord(reply.inputs) ? reply.inputs : {};
+  const unknown = Object.keys(raw).filter((key) => !(key in ASSISTANT_FIELDS));
+  const known = Object.fromEntries(Object.entries(raw).filter(([key]) => key in ASSISTANT_FIELDS));
+  const { inputs, invalid } = validateInputFields(known);
+  const notes = Array.isArray(reply.notes) ? reply.notes.filter((note): note is string => typeof note === 'string') : [];
+  return { tab: reply.tab as Tab, inputs, rejected: [...unknown, ...invalid], notes };
+}
+
+// The inputs the calculator ends up with once an interpretation is applied
+export function applyInterpretation(current: CalculatorInputs, tab: Tab, inputs: Partial<CalculatorInputs>): CalculatorInputs {
+  return sanitizeInputs({ ...current, ...inputs, tab });
+}
+
+export async function interpretRequest(model: AssistantModel, message: string, today: Date = new Date()): Promise<AssistantInterpretation> {
+  const prompt = [
+    'Você converte pedidos sobre cálculos trabalhistas brasileiros (CLT) em campos de uma calculadora.',
+    `Hoje é ${format(today, 'yyyy-MM-dd')}.`,
+    'Escolha a calculadora (tab) entre:',
+    ...TABS.map((tab) => `- ${tab}: ${TAB_DESCRIPTIONS[tab]}`),
+    'Preencha apenas os campos que o usuário informou ou que decorrem diretamente do pedido. Não calcule nenhum valor.',
+    'Valores em reais são números (4.200 vira 4200). Datas sem dia usam o dia 1º. Sem data de desligamento em uma rescisão, use hoje.',
+    'Registre em notes o que o usuário disse e nenhum campo cobre.',
+    'Na rescisão, as férias vencidas saem dos períodos aquisitivos e de takenVacationPeriods; dias de férias vencidas informados vão para notes.',
+    '',
+    `Pedido: ${message}`
+  ].join('\n');
+  return parseAssistantReply(await model.generateJson(prompt, REPLY_SCHEMA));
+}
+
+// The result goes over as JSON, memória de cálculo included, so the
+// explanation can point to the steps behind each amount
+export async function explainResult(
+  model: AssistantModel,
+  message: string,
+  tab: Tab,
+  result: unknown,
+  notes: string[] = []
+): Promise<string> {
+  const prompt = [
+    'Você explica resultados de uma calculadora trabalhista brasileira (CLT) para quem não é especialista.',
+    `Pedido do usuário: ${message}`,
+    `Cálculo feito: ${TAB_DESCRIPTIONS[tab]}.`,
+    ...(notes.length > 0 ? [`Ficaram fora do cálculo, e a explicação deve dizer isso: ${notes.join('; ')}.`] : []),
+    'Resultado calculado pela aplicação, em JSON:',
+    JSON.stringify(result),
+    '',
+    'Explique em português simples, em no máximo três parágrafos curtos, o que o usuário recebe e de onde vêm os principais valores.',
+    'Use somente os números do resultado, formatados como R$ 1.234,56. Não recalcule nem invente valores.',
+    'Se o resultado depender de algo que o usuário não informou, diga qual valor padrão foi usado.'
+  ].join('\n');
+  return (await model.generateText(prompt)).trim();
+}
+
+export function createGeminiModel(apiKey: string, model: string = GEMINI_MODEL): AssistantModel {
+  // Loaded on first use, so the SDK stays out of the main bundle
+  let client: Promise<GoogleGenAI> | null = null;
+  const getClient = () => (client ??= import('@google/genai').then(({ GoogleGenAI }) => new GoogleGenAI({ apiKey })));
+
+  return {
+    async generateJson(prompt, schema) {
+      const ai = await getClient();
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: { responseMimeType: 'application/json', responseJsonSchema: schema }
+      });
+      try {
+        return JSON.parse(response.text ?? '');
+      } catch {
+        throw new Error('O assistente respondeu em um formato inesperado. Tente novamente.');
+      }
+    },
+    async generateText(prompt) {
+      const ai = await getClient();
+      const response = await ai.models.generateContent({ model, contents: prompt });
+      return response.text ?? '';
+    }
+  };
+}
+
+// Offline stand-in for Gemini, for tests and development without an API key
+export function createStubModel(replies: {
+  json: (prompt: string) => unknown;
+  text?: (prompt: string) => string;
+}): AssistantModel {
+  return {
+    generateJson: async (prompt) => replies.json(prompt),
+    generateText: async (prompt) => replies.text?.(prompt) ?? ''
+  };
+}
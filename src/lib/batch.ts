@@ -0,0 +1,361 @@
+import {
+  calculateSalary,
+  calculateTermination,
+  HAZARDS,
+  SalaryResult,
+  TERMINATION_TYPES,
+  TerminationResult
+} from './calculator';
+import { DeductionType, PayrollDeduction } from './deductions';
+import { Money, subtractMoney, sumMoney, ZERO } from './money';
+
+export type CellValue = string | number | boolean | Date | null | undefined;
+
+export interface BatchError {
+  line: number;
+  message: string;
+}
+
+export interface BatchRowResult {
+  line: number;
+  name: string;
+  salary?: SalaryResult;
+  termination?: TerminationResult;
+  errors: string[];
+}
+
+export interface BatchTotals {
+  gross: Money;
+  inss: Money;
+  irrf: Money;
+  otherDiscounts: Money;
+  net: Money;
+  fgts: Money;
+  fgtsFine: Money;
+}
+
+export interface BatchReport {
+  rows: BatchRowResult[];
+  errors: BatchError[];
+  totals: BatchTotals;
+  processed: number;
+  failed: number;
+}
+
+// Spreadsheet columns, matched against headers without accents, case or
+// punctuation ("Salário Bruto" reads as salario_bruto)
+export const BATCH_COLUMNS: { key: string; description: string }[] = [
+  { key: 'nome', description: 'Nome do empregado' },
+  { key: 'salario_bruto', description: 'Salário base mensal (obrigatório)' },
+  { key: 'dependentes', description: 'Dependentes para o IRRF' },
+  { key: 'bonus', description: 'Bônus e comissões do mês' },
+  { key: 'adicional', description: 'none, insalubridade-minimo, insalubridade-medio, insalubridade-maximo ou periculosidade' },
+  { key: 'admissao', description: 'Data de admissão (obrigatória na rescisão)' },
+  { key: 'vale_transporte', description: 'Custo mensal do vale-transporte' },
+  { key: 'plano_saude', description: 'Desconto do plano de saúde' },
+  { key: 'plano_odontologico', description: 'Desconto do plano odontológico' },
+  { key: 'previdencia_privada', description: 'Contribuição à previdência privada' },
+  { key: 'consignado', description: 'Parcela de empréstimo consignado' },
+  { key: 'pensao_percentual', description: 'Pensão alimentícia em % do bruto' },
+  { key: 'outros_descontos', description: 'Outros descontos' },
+  { key: 'desligamento', description: 'Data de desligamento; preenchida, calcula a rescisão' },
+  { key: 'tipo_rescisao', description: 'sem-justa-causa, com-justa-causa, pedido-demissao ou comum-acordo' },
+  { key: 'saldo_fgts', description: 'Saldo do FGTS antes da rescisão' },
+  { key: 'aviso_trabalhado', description: 'sim ou não' },
+  { key: 'ferias_gozadas', description: 'Períodos aquisitivos de férias já gozados; em branco, nenhum é considerado gozado e a linha recebe um aviso' }
+];
+
+const FIXED_DEDUCTIONS: Record<string, DeductionType> = {
+  vale_transporte: 'vale-transporte',
+  plano_saude: 'plano-saude',
+  plano_odontologico: 'plano-odontologico',
+  previdencia_privada: 'previdencia-privada',
+  consignado: 'consignado',
+  outros_descontos: 'outros'
+};
+
+function normalizeHeader(value: CellValue): string {
+  return String(value ?? '')
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+}
+
+const isBlank = (value: CellValue) => value === null || value === undefined || String(value).trim() === '';
+
+// Accepts spreadsheet numbers, 4200.50 and the pt-BR R$ 4.200,50. Without
+// a comma, dots in groups of three are pt-BR thousands: 4.200 is 4200.
+function toNumber(value: CellValue): number {
+  if (typeof value === 'number') return value;
+  const text = String(value).replace(/R\$|\s/g, '');
+  const thousands = text.includes(',') || /^-?\d{1,3}(\.\d{3})+$/.test(text);
+  const normalized = thousands ? text.replace(/\./g, '').replace(',', '.') : text;
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : NaN;
+}
+
+// Spreadsheet dates come in as UTC midnight; text as ISO or dd/mm/aaaa
+function toDate(value: CellValue): Date | null {
+  if (value instanceof Date) return new Date(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate());
+  const text = String(value).trim();
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (match) return new Date(Number(match[3]), Number(match[2]) - 1, Number(match[1]));
+  return null;
+}
+
+function toBoolean(value: CellValue): boolean | null {
+  if (typeof value === 'boolean') return value;
+  const text = normalizeHeader(value);
+  if (['sim', 's', 'true', '1', 'x'].includes(text)) return true;
+  if (['nao', 'n', 'false', '0'].includes(text)) return false;
+  return null;
+}
+
+function runRow(line: number, cells: Record<string, CellValue>, referenceDate: Date): BatchRowResult {
+  const errors: string[] = [];
+  const name = isBlank(cells.nome) ? `Linha ${line}` : String(cells.nome).trim();
+
+  const number = (key: string, { required = false, integer = false, max = Infinity } = {}): number => {
+    const value = cells[key];
+    if (isBlank(value)) {
+      if (required) errors.push(`${key}: obrigatório`);
+      return 0;
+    }
+    const parsed = toNumber(value);
+    if (!Number.isFinite(parsed) || parsed < 0 || parsed > max || (integer && !Number.isInteger(parsed))) {
+      errors.push(`${key}: valor inválido "${value}"`);
+      return 0;
+    }
+    return parsed;
+  };
+
+  const date = (key: string, required: boolean): Date | null => {
+    const value = cells[key];
+    if (isBlank(value)) {
+      if (required) errors.push(`${key}: obrigatória`);
+      return null;
+    }
+    const parsed = toDate(value);
+    if (!parsed) errors.push(`${key}: data inválida "${value}"`);
+    return parsed;
+  };
+
+  const oneOf = <T extends string>(key: string, options: readonly T[], fallback?: T): T | undefined => {
+    const value = cells[key];
+    if (isBlank(value)) {
+      if (!fallback) errors.push(`${key}: obrigatório`);
+      return fallback;
+    }
+    const text = String(value).trim().toLowerCase() as T;
+    if (options.includes(text)) return text;
+    errors.push(`${key}: deve ser um de ${options.join(', ')}`);
+    return fallback;
+  };
+
+  const salary = number('salario_bruto', { required: true });
+  const dependents = number('dependentes', { integer: true });
+  const bonuses = number('bonus');
+  const hazard = oneOf('adicional', HAZARDS, 'none')!;
+  const deductions: PayrollDeduction[] = Object.entries(FIXED_DEDUCTIONS)
+    .map(([key, type]) => ({ type, value: number(key) }))
+    .filter((deduction) => deduction.value > 0);
+  const alimony = number('pensao_percentual', { max: 100 });
+  if (alimony > 0) deductions.push({ type: 'pensao-alimenticia', value: 0, percentage: alimony, alimonyBase: 'bruto' });
+
+  const isTermination = !isBlank(cells.desligamento);
+  const admissionDate = date('admissao', isTermination);
+
+  if (!isTermination) {
+    if (errors.length > 0) return { line, name, errors };
+    return { line, name, salary: calculateSalary(salary, dependents, deductions, referenceDate, bonuses, hazard), errors };
+  }
+
+  const endDate = date('desligamento', true);
+  const type = oneOf('tipo_rescisao', TERMINATION_TYPES);
+  const fgtsBalance = number('saldo_fgts');
+  const takenPeriods = isBlank(cells.ferias_gozadas) ? undefined : number('ferias_gozadas', { integer: true });
+  let noticeWorked = false;
+  if (!isBlank(cells.aviso_trabalhado)) {
+    const parsed = toBoolean(cells.aviso_trabalhado);
+    if (parsed === null) errors.push(`aviso_trabalhado: use sim ou não`);
+    noticeWorked = parsed ?? false;
+  }
+  if (admissionDate && endDate && endDate < admissionDate) errors.push('desligamento: anterior à admissão');
+  if (errors.length > 0 || !admissionDate || !endDate || !type) return { line, name, errors };
+
+  return {
+    line,
+    name,
+    termination: calculateTermination(salary, admissionDate, endDate, type, fgtsBalance, { takenPeriods }, bonuses, noticeWorked, hazard),
+    errors
+  };
+}
+
+// Gross, taxes and net of a row, whichever calculation it ran
+export function summarizeRow(row: BatchRowResult): BatchTotals | null {
+  if (row.salary) {
+    const { grossSalary, inss, irrf, netSalary, fgts } = row.salary;
+    return { gross: grossSalary, inss, irrf, otherDiscounts: subtractMoney(grossSalary, inss, irrf, netSalary), net: netSalary, fgts, fgtsFine: ZERO };
+  }
+  if (row.termination) {
+    const { grossTotal, inss, irrf, netTotal, fgtsDeposit, fgtsFine = ZERO } = row.termination;
+    return { gross: grossTotal, inss, irrf, otherDiscounts: subtractMoney(grossTotal, inss, irrf, netTotal), net: netTotal, fgts: fgtsDeposit, fgtsFine };
+  }
+  return null;
+}
+
+// The first row holds the headers. Invalid rows are reported and skipped, so
+// one bad line never aborts the rest of the batch.
+export function runBatch(table: CellValue[][], referenceDate: Date): BatchReport {
+  const errors: BatchError[] = [];
+  const [headerRow = [], ...dataRows] = table;
+  const headers = headerRow.map(normalizeHeader);
+  const known = new Set(BATCH_COLUMNS.map((column) => column.key));
+
+  headers.forEach((header, i) => {
+    if (header && !known.has(header)) errors.push({ line: 1, message: `Coluna ignorada: "${headerRow[i]}"` });
+  });
+  if (!headers.includes('salario_bruto')) {
+    errors.push({ line: 1, message: 'Coluna obrigatória ausente: salario_bruto' });
+    return { rows: [], errors, totals: emptyTotals(), processed: 0, failed: 0 };
+  }
+
+  const rows: BatchRowResult[] = [];
+  dataRows.forEach((cells, i) => {
+    if (cells.every(isBlank)) return;
+    const record = Object.fromEntries(headers.map((header, column) => [header, cells[column]]));
+    const row = runRow(i + 2, record, referenceDate);
+    if (row.termination?.takenPeriodsMissing) {
+      errors.push({ line: row.line, message: 'ferias_gozadas em branco: períodos completos contados como não gozados' });
+    }
+    rows.push(row);
+  });
+
+  const totals = emptyTotals();
+  for (const row of rows) {
+    const summary = summarizeRow(row);
+    if (!summary) continue;
+    for (const key of Object.keys(totals) as (keyof BatchTotals)[]) totals[key] = sumMoney(totals[key], summary[key]);
+  }
+
+  const failed = rows.filter((row) => row.errors.length > 0).length;
+  return { rows, errors, totals, processed: rows.length - failed, failed };
+}
+
+function emptyTotals(): BatchTotals {
+  return { gross: ZERO, inss: ZERO, irrf: ZERO, otherDiscounts: ZERO, net: ZERO, fgts: ZERO, fgtsFine: ZERO };
+}
+
+// Comma or semicolon separated, with quoted cells for names and pt-BR values
+// such as "4.200,50"
+export function parseCsv(text: string): CellValue[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const separator = firstLine.includes(';') ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) rows.push([...row, cell]);
+  return rows;
+}
+
+export async function readBatchFile(file: File): Promise<CellValue[][]> {
+  if (!/\.xlsx$/i.test(file.name)) return parseCsv(await file.text());
+
+  // Loaded on demand: the workbook library is only needed for spreadsheets
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const table: CellValue[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: CellValue[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      // Formulas, rich text and hyperlinks are read as their displayed text
+      const { value } = cell;
+      cells[column - 1] = value === null || typeof value !== 'object' || value instanceof Date ? (value as CellValue) : cell.text;
+    });
+    table[rowNumber - 1] = cells;
+  });
+  return Array.from(table, (cells) => Array.from(cells ?? [], (cell) => cell ?? null));
+}
+
+export function buildBatchTemplate(): string {
+  const example = ['Maria Souza', '4200,00', '1', '', 'none', '2021-03-01', '180,00', '250,00', '', '', '', '', '', '', '', '', '', ''];
+  const termination = ['João Lima', '3500,00', '0', '', 'none', '15/03/2021', '', '', '', '', '', '', '', '2026-03-31', 'sem-justa-causa', '9800,00', 'não', '4'];
+  return [BATCH_COLUMNS.map((column) => column.key), example, termination].map((row) => row.join(';')).join('\r\n');
+}
+
+const EXPORT_HEADERS = ['Linha', 'Nome', 'Cálculo', 'Bruto', 'INSS', 'IRRF', 'Outros Descontos', 'Líquido', 'FGTS', 'Multa FGTS', 'Erros'];
+
+// One line per employee plus a totals line; rows with errors carry only the
+// messages
+export function buildBatchSheet(report: BatchReport): (string | number)[][] {
+  const values = (summary: BatchTotals) =>
+    [summary.gross, summary.inss, summary.irrf, summary.otherDiscounts, summary.net, summary.fgts, summary.fgtsFine];
+
+  const lines = report.rows.map((row) => {
+    const summary = summarizeRow(row);
+    const kind = row.termination ? 'Rescisão' : row.salary ? 'Folha' : '';
+    return [row.line, row.name, kind, ...(summary ? values(summary) : Array(7).fill('')), row.errors.join('; ')];
+  });
+  return [EXPORT_HEADERS, ...lines, ['', 'Total', `${report.processed} calculados`, ...values(report.totals), report.failed > 0 ? `${report.failed} com erro` : '']];
+}
+
+// Semicolon separated with decimal commas, as pt-BR spreadsheets open it
+export function renderBatchCsv(report: BatchReport): string {
+  const escape = (value: string | number) => {
+    const text = typeof value === 'number' ? value.toFixed(2).replace('.', ',') : value;
+    return /[;"\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return buildBatchSheet(report)
+    .map((row) => row.map((value, column) => escape(column === 0 ? String(value) : value)).join(';'))
+    .join('\r\n');
+}
+
+export async function renderBatchXlsx(report: BatchReport): Promise<Blob> {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Lote');
+  const rows = buildBatchSheet(report);
+  sheet.addRows(rows);
+  sheet.getRow(1).font = { bold: true };
+  sheet.getRow(rows.length).font = { bold: true };
+  for (let column = 4; column <= 10; column++) sheet.getColumn(column).numFmt = '#,##0.00';
+  sheet.getColumn(2).width = 28;
+  sheet.getColumn(11).width = 48;
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
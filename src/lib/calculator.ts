@@ -1,62 +1,350 @@
+import { addDays, differenceInCalendarDays, differenceInYears, format } from 'date-fns';
+import { getTaxTable, TaxTable } from './taxTables';
+import {
+  calculateDeductionAmount,
+  DEDUCTION_LABELS,
+  DeductionLine,
+  DeductionType,
+  PAYROLL_LOAN_MARGIN,
+  PayrollDeduction,
+  TRANSPORT_VOUCHER_RATE
+} from './deductions';
+import { maxMoney, minMoney, Money, money, multiplyMoney, subtractMoney, sumMoney, ZERO } from './money';
+import { brl, CalculationTrace, decimal, percent, step, TraceStep } from './trace';
+import { buildVacationPeriods, VacationPeriod, VacationPeriodOptions } from './vacationPeriods';
+
 export interface SalaryResult {
-  grossSalary: number;
-  inss: number;
-  irrf: number;
-  netSalary: number;
-  fgts: number;
-  discounts: number;
+  baseSalary: Money;
+  bonuses: Money;
+  hazardPay: Money;
+  grossSalary: Money;
+  inss: Money;
+  irrf: Money;
+  netSalary: Money;
+  fgts: Money;
+  discounts: Money;
+  deductionLines: DeductionLine[];
+  alimony: Money;
+  privatePension: Money;
+  payrollLoanMargin: Money;
+  payrollLoanMarginExceeded: boolean;
+  irrfBase: Money;
+  irrfMethod: IrrfMethod;
+  tableVersion: string;
+  trace: CalculationTrace;
+}
+
+export type IrrfMethod = 'legal' | 'simplified';
+
+export const HAZARDS = [
+  'none',
+  'insalubridade-minimo',
+  'insalubridade-medio',
+  'insalubridade-maximo',
+  'periculosidade'
+] as const;
+
+export type HazardType = typeof HAZARDS[number];
+
+export interface IrrfDeductions {
+  dependents?: number;
+  alimony?: number; // Pensão alimentícia judicial
+  privatePension?: number; // PGBL / Funpresp contributions
+}
+
+// Besides the tax, the IRRF result carries every figure of the memória de
+// cálculo: the deductions taken, the bracket applied and the Lei 15.270 reduction
+export interface IrrfResult {
+  irrf: Money;
+  base: Money;
+  method: IrrfMethod;
+  deductions: Money;
+  income: Money;
+  inss: Money;
+  dependents: number;
+  dependentsDeduction: Money;
+  alimony: Money;
+  privatePension: Money;
+  rate: number;
+  parcelaDeduzir: number;
+  taxBeforeReduction: Money;
+  reduction: Money;
+}
+
+export interface InssBracketTrace {
+  from: number;
+  upTo: number;
+  rate: number;
+  base: Money;
+  amount: number; // Unrounded; the contribution is rounded once
+}
+
+export interface InssDetails {
+  inss: Money;
+  salary: Money;
+  brackets: InssBracketTrace[];
+  ceilingApplied: boolean;
 }
 
 export interface VacationResult {
-  baseSalary: number;
-  vacationValue: number;
-  oneThirdBonus: number;
-  grossTotal: number;
-  inss: number;
-  irrf: number;
-  netTotal: number;
-  abonoPecuniario?: number;
-  abonoOneThird?: number;
+  baseSalary: Money;
+  vacationValue: Money;
+  oneThirdBonus: Money;
+  grossTotal: Money;
+  inss: Money;
+  irrf: Money;
+  netTotal: Money;
+  abonoPecuniario?: Money;
+  abonoOneThird?: Money;
+  tableVersion: string;
+  trace: CalculationTrace;
+}
+
+export interface ThirteenthResult {
+  baseSalary: Money;
+  months: number;
+  grossTotal: Money;
+  firstInstallment: Money;
+  secondInstallmentGross: Money;
+  inss: Money;
+  irrf: Money;
+  secondInstallment: Money;
+  netTotal: Money;
+  fgts: Money;
+  tableVersion: string;
+  trace: CalculationTrace;
 }
 
 export interface OvertimeResult {
   hourlyRate: number;
-  overtimeValue: number;
-  totalValue: number;
-}
-
-// 2024/2025 INSS Table (Simplified for demo, but realistic)
-export function calculateINSS(salary: number): number {
-  if (salary <= 1412) return salary * 0.075;
-  if (salary <= 2666.68) return (salary - 1412) * 0.09 + 105.9;
-  if (salary <= 4000.03) return (salary - 2666.68) * 0.12 + 105.9 + 112.92;
-  if (salary <= 7786.02) return (salary - 4000.03) * 0.14 + 105.9 + 112.92 + 160.00;
-  return 908.85; // Ceiling
-}
-
-// 2024/2025 IRRF Table
-export function calculateIRRF(salary: number, inss: number, dependents: number = 0): number {
-  const base = salary - inss - (dependents * 189.59);
-  if (base <= 2259.20) return 0;
-  if (base <= 2826.65) return (base * 0.075) - 169.44;
-  if (base <= 3751.05) return (base * 0.15) - 381.44;
-  if (base <= 4664.68) return (base * 0.225) - 662.77;
-  return (base * 0.275) - 896.00;
-}
-
-export function calculateSalary(grossSalary: number, dependents: number = 0, otherDiscounts: number = 0): SalaryResult {
-  const inss = calculateINSS(grossSalary);
-  const irrf = calculateIRRF(grossSalary, inss, dependents);
-  const fgts = grossSalary * 0.08;
-  const netSalary = grossSalary - inss - irrf - otherDiscounts;
+  overtimeValue: Money;
+  holidayOvertimeValue: Money;
+  nightHours: number;
+  nightPremium: Money;
+  overtimeDsr: Money;
+  nightPremiumDsr: Money;
+  totalValue: Money;
+  trace: CalculationTrace;
+}
+
+// Insalubridade is a percentage of the minimum wage in force (art. 192);
+// periculosidade is 30% of the base salary, without bonuses (art. 193, § 1º)
+export function calculateHazardPay(
+  baseSalary: number,
+  hazard: HazardType = 'none',
+  referenceDate: Date = new Date()
+): Money {
+  const minimumWage = getTaxTable(referenceDate).minimumWage;
+  switch (hazard) {
+    case 'insalubridade-minimo': return multiplyMoney(minimumWage, 0.1);
+    case 'insalubridade-medio': return multiplyMoney(minimumWage, 0.2);
+    case 'insalubridade-maximo': return multiplyMoney(minimumWage, 0.4);
+    case 'periculosidade': return multiplyMoney(baseSalary, 0.3);
+    default: return ZERO;
+  }
+}
+
+function hazardSteps(salary: number, hazard: HazardType, hazardPay: Money, referenceDate: Date): TraceStep[] {
+  if (hazard === 'none') return [];
+  if (hazard === 'periculosidade') return [step('Adicional de periculosidade', hazardPay, `30% × ${brl(salary)}`)];
+  const minimumWage = getTaxTable(referenceDate).minimumWage;
+  return [step('Adicional de insalubridade', hazardPay, `${percent(hazardPay / minimumWage)} × salário mínimo de ${brl(minimumWage)}`)];
+}
+
+// The brackets are added up unrounded and the contribution is rounded once,
+// which matches the rate-minus-deduction form of the official table
+export function calculateINSSDetails(salary: number, referenceDate: Date = new Date()): InssDetails {
+  const table = getTaxTable(referenceDate);
+  const brackets: InssBracketTrace[] = [];
+  let inss = 0;
+  let lowerBound = 0;
+  for (const bracket of table.inss) {
+    if (salary <= lowerBound) break;
+    const base = subtractMoney(Math.min(salary, bracket.upTo), lowerBound);
+    const amount = base * bracket.rate;
+    brackets.push({ from: lowerBound, upTo: bracket.upTo, rate: bracket.rate, base, amount });
+    inss += amount;
+    lowerBound = bracket.upTo;
+  }
+  // Salaries above the last bracket stop at the ceiling
+  return { inss: money(inss), salary: money(salary), brackets, ceilingApplied: salary > lowerBound };
+}
+
+export function calculateINSS(salary: number, referenceDate: Date = new Date()): Money {
+  return calculateINSSDetails(salary, referenceDate).inss;
+}
+
+type IrrfTableResult = Pick<IrrfResult, 'irrf' | 'rate' | 'parcelaDeduzir' | 'taxBeforeReduction' | 'reduction'>;
+
+function applyIrrfTable(table: TaxTable, salary: number, base: number): IrrfTableResult {
+  const bracket = table.irrf.find((b) => base <= b.upTo) ?? table.irrf[table.irrf.length - 1];
+  const tax = maxMoney(0, subtractMoney(multiplyMoney(base, bracket.rate), bracket.deduction));
+  const result = (reduction: Money): IrrfTableResult => ({
+    irrf: maxMoney(0, subtractMoney(tax, reduction)),
+    rate: bracket.rate,
+    parcelaDeduzir: bracket.deduction,
+    taxBeforeReduction: tax,
+    reduction: minMoney(tax, reduction)
+  });
+
+  const reduction = table.irrfReduction;
+  if (!reduction || tax === 0) return result(ZERO);
+  if (salary <= reduction.exemptUpTo) return result(money(reduction.maxReduction));
+  if (salary <= reduction.phaseOutUpTo) return result(money(reduction.constant - reduction.factor * salary));
+  return result(ZERO);
+}
+
+// Computes the tax with the legal deductions and with the simplified monthly
+// discount, keeping whichever is lower as the Receita allows.
+export function calculateIRRFDetails(
+  salary: number,
+  inss: number,
+  deductions: IrrfDeductions = {},
+  referenceDate: Date = new Date()
+): IrrfResult {
+  const table = getTaxTable(referenceDate);
+  const { dependents = 0 } = deductions;
+  const alimony = money(deductions.alimony ?? 0);
+  // Private pension is deductible up to 12% of the taxable income
+  const privatePension = minMoney(deductions.privatePension ?? 0, multiplyMoney(salary, 0.12));
+  const dependentsDeduction = multiplyMoney(table.dependentDeduction, dependents);
+  const common = { income: money(salary), inss: money(inss), dependents, dependentsDeduction, alimony, privatePension };
+
+  const legalDeductions = sumMoney(inss, dependentsDeduction, alimony, privatePension);
+  const legalBase = maxMoney(0, subtractMoney(salary, legalDeductions));
+  const legal: IrrfResult = {
+    ...common,
+    ...applyIrrfTable(table, salary, legalBase),
+    base: legalBase,
+    method: 'legal',
+    deductions: legalDeductions
+  };
+
+  if (table.simplifiedDiscount <= 0) return legal;
+
+  const simplifiedBase = maxMoney(0, subtractMoney(salary, table.simplifiedDiscount));
+  const simplified = applyIrrfTable(table, salary, simplifiedBase);
+  if (simplified.irrf >= legal.irrf) return legal;
+
+  return {
+    ...common,
+    ...simplified,
+    base: simplifiedBase,
+    method: 'simplified',
+    deductions: money(table.simplifiedDiscount)
+  };
+}
+
+export function calculateIRRF(
+  salary: number,
+  inss: number,
+  dependents: number = 0,
+  referenceDate: Date = new Date()
+): Money {
+  return calculateIRRFDetails(salary, inss, { dependents }, referenceDate).irrf;
+}
+
+export function calculateSalary(
+  baseSalary: number,
+  dependents: number = 0,
+  deductions: PayrollDeduction[] = [],
+  referenceDate: Date = new Date(),
+  bonuses: number = 0,
+  hazard: HazardType = 'none'
+): SalaryResult {
+  const hazardPay = calculateHazardPay(baseSalary, hazard, referenceDate);
+  const grossSalary = sumMoney(baseSalary, bonuses, hazardPay);
+  const inssDetails = calculateINSSDetails(grossSalary, referenceDate);
+  const inss = inssDetails.inss;
+
+  const amounts = deductions.map((deduction) => calculateDeductionAmount(deduction, baseSalary, grossSalary));
+  const sumOf = (type: DeductionType) =>
+    sumMoney(...amounts.filter((_, i) => deductions[i].type === type));
+  const privatePension = sumOf('previdencia-privada');
+
+  // Pensão over net pay (bruto - INSS - IRRF) lowers the IRRF it depends on,
+  // so iterate until the amount settles to the centavo
+  const netAlimonyRates = deductions
+    .filter((deduction) => deduction.type === 'pensao-alimenticia' && deduction.alimonyBase === 'liquido')
+    .map((deduction) => Math.max(0, deduction.percentage ?? 0) / 100);
+  const grossAlimony = sumOf('pensao-alimenticia');
+  let alimony = grossAlimony;
+  let netPay = ZERO;
+  let irrfDetails = calculateIRRFDetails(grossSalary, inss, { dependents, alimony, privatePension }, referenceDate);
+  for (let i = 0; netAlimonyRates.length > 0 && i < 50; i++) {
+    netPay = maxMoney(0, subtractMoney(grossSalary, inss, irrfDetails.irrf));
+    const next = sumMoney(grossAlimony, ...netAlimonyRates.map((rate) => multiplyMoney(netPay, rate)));
+    const settled = next === alimony;
+    alimony = next;
+    irrfDetails = calculateIRRFDetails(grossSalary, inss, { dependents, alimony, privatePension }, referenceDate);
+    if (settled) break;
+  }
+  const irrf = irrfDetails.irrf;
+
+  const deductionLines: DeductionLine[] = deductions.map((deduction, i) => ({
+    type: deduction.type,
+    label: DEDUCTION_LABELS[deduction.type],
+    amount: deduction.type === 'pensao-alimenticia' && deduction.alimonyBase === 'liquido'
+      ? multiplyMoney(netPay, Math.max(0, deduction.percentage ?? 0) / 100)
+      : amounts[i]
+  }));
+
+  // Consignado installments must fit in 35% of the pay left after the
+  // compulsory discounts
+  const payrollLoanMargin = multiplyMoney(maxMoney(0, subtractMoney(grossSalary, inss, irrf, alimony)), PAYROLL_LOAN_MARGIN);
+  const payrollLoans = sumOf('consignado');
+
+  const fgts = multiplyMoney(grossSalary, 0.08);
+  const discounts = sumMoney(inss, irrf, ...deductionLines.map((line) => line.amount));
+  const netSalary = subtractMoney(grossSalary, discounts);
+
+  const deductionFormula = (deduction: PayrollDeduction): string | undefined => {
+    const rate = percent(Math.max(0, deduction.percentage ?? 0) / 100);
+    switch (deduction.type) {
+      case 'vale-transporte':
+        return `${percent(TRANSPORT_VOUCHER_RATE)} × ${brl(baseSalary)}, limitado a ${brl(deduction.value)}`;
+      case 'vale-refeicao':
+      case 'vale-alimentacao':
+        return `${rate} × ${brl(deduction.value)}`;
+      case 'pensao-alimenticia':
+        return deduction.alimonyBase === 'liquido'
+          ? `${rate} × líquido de ${brl(netPay)} (bruto − INSS − IRRF)`
+          : `${rate} × bruto de ${brl(grossSalary)}`;
+      default:
+        return undefined;
+    }
+  };
+  const steps: TraceStep[] = [
+    step('Salário base', money(baseSalary)),
+    ...(bonuses > 0 ? [step('Bônus e comissões', money(bonuses))] : []),
+    ...hazardSteps(baseSalary, hazard, hazardPay, referenceDate),
+    step('Salário bruto', grossSalary, 'salário base + bônus + adicional'),
+    step('INSS', inss, 'soma das faixas progressivas sobre o bruto'),
+    step('IRRF', irrf, irrfDetails.method === 'simplified' ? 'tabela mensal com desconto simplificado' : 'tabela mensal com deduções legais'),
+    ...deductionLines.map((line, i) => step(line.label, line.amount, deductionFormula(deductions[i]))),
+    step('Salário líquido', netSalary, `${brl(grossSalary)} − ${brl(discounts)} de descontos`),
+    step('FGTS', fgts, `8% × ${brl(grossSalary)}`)
+  ];
   
   return {
+    baseSalary: money(baseSalary),
+    bonuses: money(bonuses),
+    hazardPay,
     grossSalary,
     inss,
     irrf,
     netSalary,
     fgts,
-    discounts: inss + irrf + otherDiscounts
+    discounts,
+    deductionLines,
+    alimony,
+    privatePension,
+    payrollLoanMargin,
+    payrollLoanMarginExceeded: payrollLoans > payrollLoanMargin,
+    irrfBase: irrfDetails.base,
+    irrfMethod: irrfDetails.method,
+    tableVersion: getTaxTable(referenceDate).version,
+    trace: { steps, inss: inssDetails, irrf: irrfDetails }
   };
 }
 
@@ -66,75 +354,250 @@ export function calculateVacation(
   sellTenDays: boolean = false,
   dependents: number = 0,
   unusedVacationDays: number = 0,
-  bonuses: number = 0
+  bonuses: number = 0,
+  referenceDate: Date = new Date(),
+  hazard: HazardType = 'none'
 ): VacationResult {
-  const baseForVacation = salary + bonuses;
-  const dailyRate = baseForVacation / 30;
+  const baseForVacation = sumMoney(salary, bonuses, calculateHazardPay(salary, hazard, referenceDate));
   
   // Current vacation
-  const vacationValue = dailyRate * days;
-  const oneThirdBonus = vacationValue / 3;
+  const vacationValue = multiplyMoney(baseForVacation, days, 30);
+  const oneThirdBonus = multiplyMoney(vacationValue, 1, 3);
   
   // Unused/Expired vacation
-  const unusedVacationValue = dailyRate * unusedVacationDays;
-  const unusedVacationOneThird = unusedVacationValue / 3;
+  const unusedVacationValue = multiplyMoney(baseForVacation, unusedVacationDays, 30);
+  const unusedVacationOneThird = multiplyMoney(unusedVacationValue, 1, 3);
   
-  let abonoPecuniario = 0;
-  let abonoOneThird = 0;
+  let abonoPecuniario = ZERO;
+  let abonoOneThird = ZERO;
   
   if (sellTenDays) {
-    abonoPecuniario = dailyRate * 10;
-    abonoOneThird = abonoPecuniario / 3;
+    abonoPecuniario = multiplyMoney(baseForVacation, 10, 30);
+    abonoOneThird = multiplyMoney(abonoPecuniario, 1, 3);
   }
   
-  const currentGross = vacationValue + oneThirdBonus;
-  const inss = calculateINSS(currentGross);
-  const irrf = calculateIRRF(currentGross, inss, dependents);
+  const currentGross = sumMoney(vacationValue, oneThirdBonus);
+  const inssDetails = calculateINSSDetails(currentGross, referenceDate);
+  const inss = inssDetails.inss;
+  const irrfDetails = calculateIRRFDetails(currentGross, inss, { dependents }, referenceDate);
+  const irrf = irrfDetails.irrf;
+  // Abono and férias vencidas are indemnities, free of INSS and IRRF
+  const untaxed = sumMoney(unusedVacationValue, unusedVacationOneThird, abonoPecuniario, abonoOneThird);
+  const netTotal = sumMoney(subtractMoney(currentGross, inss, irrf), untaxed);
+
+  const steps: TraceStep[] = [
+    step('Remuneração base', baseForVacation, 'salário + bônus + adicional'),
+    step('Valor do dia', baseForVacation / 30, `${brl(baseForVacation)} ÷ 30`),
+    step(`Férias (${days} dias)`, vacationValue, `${brl(baseForVacation)} × ${days} ÷ 30`),
+    step('1/3 constitucional', oneThirdBonus, `${brl(vacationValue)} ÷ 3`),
+    ...(unusedVacationDays > 0
+      ? [
+          step(`Férias vencidas (${unusedVacationDays} dias)`, unusedVacationValue, `${brl(baseForVacation)} × ${unusedVacationDays} ÷ 30`),
+          step('1/3 sobre férias vencidas', unusedVacationOneThird, `${brl(unusedVacationValue)} ÷ 3`)
+        ]
+      : []),
+    ...(sellTenDays
+      ? [
+          step('Abono pecuniário (10 dias)', abonoPecuniario, `${brl(baseForVacation)} × 10 ÷ 30`),
+          step('1/3 sobre abono', abonoOneThird, `${brl(abonoPecuniario)} ÷ 3`)
+        ]
+      : []),
+    step('INSS', inss, `sobre férias + 1/3 de ${brl(currentGross)}`),
+    step('IRRF', irrf, `sobre ${brl(currentGross)} − INSS`),
+    step('Total líquido', netTotal, `${brl(currentGross)} − INSS − IRRF + ${brl(untaxed)} isentos`)
+  ];
   
   return {
     baseSalary: baseForVacation,
-    vacationValue: vacationValue + unusedVacationValue,
-    oneThirdBonus: oneThirdBonus + unusedVacationOneThird,
-    grossTotal: currentGross + unusedVacationValue + unusedVacationOneThird + abonoPecuniario + abonoOneThird,
+    vacationValue: sumMoney(vacationValue, unusedVacationValue),
+    oneThirdBonus: sumMoney(oneThirdBonus, unusedVacationOneThird),
+    grossTotal: sumMoney(currentGross, untaxed),
     inss,
     irrf,
-    netTotal: (currentGross - inss - irrf) + unusedVacationValue + unusedVacationOneThird + abonoPecuniario + abonoOneThird,
+    netTotal,
     abonoPecuniario,
-    abonoOneThird
+    abonoOneThird,
+    tableVersion: getTaxTable(referenceDate).version,
+    trace: { steps, inss: inssDetails, irrf: irrfDetails }
   };
 }
 
+// A month counts as 1/12 (avo) when at least 15 days were worked in it.
+// Only months of the end date's year are counted.
+export function countThirteenthMonths(startDate: Date, endDate: Date): number {
+  const year = endDate.getFullYear();
+  let months = 0;
+  for (let month = 0; month <= endDate.getMonth(); month++) {
+    const monthStart = new Date(year, month, 1);
+    const monthEnd = new Date(year, month + 1, 0);
+    const from = startDate > monthStart ? startDate : monthStart;
+    const to = endDate < monthEnd ? endDate : monthEnd;
+    if (differenceInCalendarDays(to, from) + 1 >= 15) months++;
+  }
+  return months;
+}
+
+export function calculateThirteenth(
+  salary: number,
+  admissionDate: Date,
+  dependents: number = 0,
+  variableAverage: number = 0,
+  referenceDate: Date = new Date(),
+  hazard: HazardType = 'none'
+): ThirteenthResult {
+  const year = referenceDate.getFullYear();
+  // The 13º is settled in December, so December's tables apply
+  const december = new Date(year, 11, 1);
+  const baseSalary = sumMoney(salary, variableAverage, calculateHazardPay(salary, hazard, december));
+  const months = countThirteenthMonths(admissionDate, new Date(year, 11, 31));
+  const grossTotal = multiplyMoney(baseSalary, months, 12);
+
+  // 1ª parcela: paid by Nov 30 without any deduction
+  const firstInstallment = multiplyMoney(grossTotal, 1, 2);
+
+  // 2ª parcela: INSS and exclusive-source IRRF over the full 13º
+  const inssDetails = calculateINSSDetails(grossTotal, december);
+  const inss = inssDetails.inss;
+  const irrfDetails = calculateIRRFDetails(grossTotal, inss, { dependents }, december);
+  const irrf = irrfDetails.irrf;
+  const secondInstallmentGross = subtractMoney(grossTotal, firstInstallment);
+  const secondInstallment = subtractMoney(secondInstallmentGross, inss, irrf);
+  const fgts = multiplyMoney(grossTotal, 0.08);
+
+  const steps: TraceStep[] = [
+    step('Remuneração base', baseSalary, 'salário + média de variáveis + adicional'),
+    step('Avos', months, `meses de ${year} com 15 dias ou mais de trabalho`, 'avos'),
+    step('13º bruto', grossTotal, `${brl(baseSalary)} × ${months} ÷ 12`),
+    step('1ª parcela', firstInstallment, `${brl(grossTotal)} ÷ 2, sem descontos`),
+    step('INSS', inss, `sobre o 13º integral de ${brl(grossTotal)}`),
+    step('IRRF', irrf, 'tributação exclusiva sobre o 13º − INSS'),
+    step('2ª parcela', secondInstallment, `${brl(secondInstallmentGross)} − INSS − IRRF`),
+    step('FGTS', fgts, `8% × ${brl(grossTotal)}`)
+  ];
+
+  return {
+    baseSalary,
+    months,
+    grossTotal,
+    firstInstallment,
+    secondInstallmentGross,
+    inss,
+    irrf,
+    secondInstallment,
+    netTotal: sumMoney(firstInstallment, secondInstallment),
+    fgts,
+    tableVersion: getTaxTable(december).version,
+    trace: { steps, inss: inssDetails, irrf: irrfDetails }
+  };
+}
+
+// Art. 73: the night hour between 22h and 5h lasts 52m30s and is paid with
+// a 20% premium
+const NIGHT_HOUR_FACTOR = 60 / 52.5;
+const NIGHT_PREMIUM_RATE = 0.2;
+
 export function calculateOvertime(
   salary: number,
   monthlyHours: number,
   overtimeHours: number,
-  percentage: number = 50
+  percentage: number = 50,
+  nightClockHours: number = 0,
+  workingDays: number = 0,
+  restDays: number = 0,
+  holidayOvertimeHours: number = 0,
+  hazard: HazardType = 'none',
+  referenceDate: Date = new Date()
 ): OvertimeResult {
-  const hourlyRate = salary / monthlyHours;
-  const overtimeRate = hourlyRate * (1 + percentage / 100);
-  const overtimeValue = overtimeRate * overtimeHours;
+  // Hazard premiums are part of the hourly rate (Súmula 132 and OJ 47 SDI-1).
+  // The rate itself is not rounded; each amount paid with it is.
+  const hazardPay = calculateHazardPay(salary, hazard, referenceDate);
+  const hourlyRate = (salary + hazardPay) / monthlyHours;
+  const overtimeValue = money(hourlyRate * (1 + percentage / 100) * overtimeHours);
+  // Sundays and holidays worked without compensation are always paid at 100%
+  const holidayOvertimeValue = money(hourlyRate * 2 * holidayOvertimeHours);
+
+  const nightHours = nightClockHours * NIGHT_HOUR_FACTOR;
+  const nightPremium = money(hourlyRate * NIGHT_PREMIUM_RATE * nightHours);
+
+  // Reflexo no DSR (Lei 605/49, Súmula 172 TST): variable pay divided by the
+  // month's working days, times its Sundays and holidays
+  const dsr = (value: Money) => (workingDays > 0 ? multiplyMoney(value, restDays, workingDays) : ZERO);
+  const overtimeDsr = dsr(sumMoney(overtimeValue, holidayOvertimeValue));
+  const nightPremiumDsr = dsr(nightPremium);
+  const totalValue = sumMoney(overtimeValue, holidayOvertimeValue, nightPremium, overtimeDsr, nightPremiumDsr);
+
+  const steps: TraceStep[] = [
+    ...hazardSteps(salary, hazard, hazardPay, referenceDate),
+    step('Valor da hora', hourlyRate, `${brl(salary + hazardPay)} ÷ ${decimal(monthlyHours)}h`),
+    step(`Horas extras (${decimal(percentage)}%)`, overtimeValue, `${brl(hourlyRate)} × ${decimal(1 + percentage / 100)} × ${decimal(overtimeHours)}h`),
+    ...(holidayOvertimeHours > 0
+      ? [step('Horas extras (100%)', holidayOvertimeValue, `${brl(hourlyRate)} × 2 × ${decimal(holidayOvertimeHours)}h`)]
+      : []),
+    ...(nightClockHours > 0
+      ? [
+          step('Horas noturnas reduzidas', nightHours, `${decimal(nightClockHours)}h × 60 ÷ 52,5`, 'hours'),
+          step('Adicional noturno', nightPremium, `20% × ${brl(hourlyRate)} × ${decimal(nightHours)}h`)
+        ]
+      : []),
+    ...(workingDays > 0
+      ? [
+          step('Fator do DSR', restDays / workingDays, `${restDays} domingos e feriados ÷ ${workingDays} dias úteis`, 'factor'),
+          step('DSR sobre horas extras', overtimeDsr, `${brl(sumMoney(overtimeValue, holidayOvertimeValue))} × ${restDays} ÷ ${workingDays}`),
+          ...(nightPremium > 0
+            ? [step('DSR sobre adicional noturno', nightPremiumDsr, `${brl(nightPremium)} × ${restDays} ÷ ${workingDays}`)]
+            : [])
+        ]
+      : []),
+    step('Total', totalValue)
+  ];
   
   return {
     hourlyRate,
     overtimeValue,
-    totalValue: overtimeValue
+    holidayOvertimeValue,
+    nightHours,
+    nightPremium,
+    overtimeDsr,
+    nightPremiumDsr,
+    totalValue,
+    trace: { steps }
   };
 }
 
 export interface TerminationResult {
-  salaryBalance: number;
-  proportionalThirteenth: number;
-  proportionalVacation: number;
-  vacationOneThird: number;
-  noticePeriod?: number;
-  fgtsFine?: number;
-  grossTotal: number;
-  inss: number;
-  irrf: number;
-  netTotal: number;
+  baseSalary: Money;
+  salaryBalance: Money;
+  proportionalThirteenth: Money;
+  proportionalVacation: Money;
+  expiredVacation: Money;
+  vacationOneThird: Money;
+  vacationPeriods: VacationPeriod[];
+  // Set when complete periods were counted as not taken only because the
+  // caller did not say how many were
+  takenPeriodsMissing: boolean;
+  noticePeriod?: Money;
+  noticeDays: number;
+  noticeDeduction: Money;
+  projectedEndDate: Date;
+  fgtsDeposit: Money;
+  fgtsFine?: Money;
+  grossTotal: Money;
+  inss: Money;
+  irrf: Money;
+  netTotal: Money;
+  tableVersion: string;
+  trace: CalculationTrace;
 }
 
-export type TerminationType = 'sem-justa-causa' | 'com-justa-causa' | 'pedido-demissao' | 'comum-acordo';
+export const TERMINATION_TYPES = ['sem-justa-causa', 'com-justa-causa', 'pedido-demissao', 'comum-acordo'] as const;
+
+export type TerminationType = typeof TERMINATION_TYPES[number];
+
+// Lei 12.506/2011: 30 days plus 3 per full year of service, up to 90
+export function calculateNoticeDays(startDate: Date, endDate: Date): number {
+  const years = Math.max(0, differenceInYears(endDate, startDate));
+  return Math.min(90, 30 + years * 3);
+}
 
 export function calculateTermination(
   salary: number,
@@ -142,77 +605,146 @@ export function calculateTermination(
   endDate: Date,
   type: TerminationType,
   fgtsBalance: number = 0,
-  unusedVacationDays: number = 0,
-  bonuses: number = 0
+  vacationOptions: VacationPeriodOptions = {},
+  bonuses: number = 0,
+  noticeWorked: boolean = false,
+  hazard: HazardType = 'none'
 ): TerminationResult {
-  const baseSalary = salary + bonuses;
-  
-  const diffTime = Math.abs(endDate.getTime() - startDate.getTime());
-  const diffDaysTotal = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+  // Every amount is baseSalary × days ÷ 30, rounded once
+  const hazardPay = calculateHazardPay(salary, hazard, endDate);
+  const baseSalary = sumMoney(salary, bonuses, hazardPay);
+  const days = (count: number) => multiplyMoney(baseSalary, count, 30);
+  const steps: TraceStep[] = [
+    ...hazardSteps(salary, hazard, hazardPay, endDate),
+    step('Remuneração base', baseSalary, 'salário + bônus + adicional'),
+    step('Valor do dia', baseSalary / 30, `${brl(baseSalary)} ÷ 30`)
+  ];
   
-  const endDay = endDate.getDate();
-  const endMonth = endDate.getMonth() + 1;
+  // 1. Aviso Prévio
+  // Proportional notice only benefits the employee; it is due when the
+  // employer ends the contract. Worked notice covers at most 30 days, the
+  // proportional extra is always indemnified.
+  let noticeDays = 0;
+  let indemnifiedNoticeDays = 0;
+  let noticePeriod = ZERO;
+  let noticeDeduction = ZERO;
+  let fgtsFine = ZERO;
+
+  if (type === 'sem-justa-causa' || type === 'comum-acordo') {
+    noticeDays = calculateNoticeDays(startDate, endDate);
+    indemnifiedNoticeDays = noticeWorked ? noticeDays - 30 : noticeDays;
+    noticePeriod = days(indemnifiedNoticeDays);
+    if (type === 'comum-acordo') noticePeriod = multiplyMoney(noticePeriod, 0.5); // Art. 484-A, I, a
+    const years = Math.max(0, differenceInYears(endDate, startDate));
+    steps.push(step('Dias de aviso prévio', noticeDays, `30 + 3 × ${years} ano(s) completo(s), até 90`, 'days'));
+    if (noticePeriod > 0) {
+      const formula = `${brl(baseSalary)} × ${indemnifiedNoticeDays} ÷ 30`;
+      steps.push(step('Aviso prévio indenizado', noticePeriod, type === 'comum-acordo' ? `(${formula}) × 50%` : formula));
+    }
+  } else if (type === 'pedido-demissao') {
+    noticeDays = 30;
+    // Art. 487, § 2º: unworked notice is deducted from the employee
+    if (!noticeWorked) noticeDeduction = baseSalary;
+    if (noticeDeduction > 0) steps.push(step('Aviso prévio não cumprido', noticeDeduction, '30 dias de remuneração'));
+  }
+
+  // Indemnified notice counts as time of service (art. 487, § 1º)
+  const projectedEndDate = addDays(endDate, indemnifiedNoticeDays);
   
-  // 1. Saldo de Salário
-  const salaryBalance = (baseSalary / 30) * endDay;
+  // 2. Saldo de Salário
+  const salaryBalance = days(endDate.getDate());
+  steps.push(step('Saldo de salário', salaryBalance, `${brl(baseSalary)} × ${endDate.getDate()} ÷ 30`));
   
-  // 2. 13º Proporcional (Refined)
-  // Counts if worked 15+ days in the month
+  // 3. 13º Proporcional
+  // Lost on dismissal for cause (Lei 4.090, art. 3º). When the projection
+  // crosses into the next year, the avos of every year touched are due.
+  const forCause = type === 'com-justa-causa';
   let thirteenthMonths = 0;
-  if (endDate.getFullYear() === startDate.getFullYear()) {
-    // Started and ended in same year
-    const startMonth = startDate.getMonth() + 1;
-    const startDay = startDate.getDate();
-    thirteenthMonths = endMonth - startMonth;
-    if (startDay <= 15) thirteenthMonths++;
-    if (endDay < 15) thirteenthMonths--;
-  } else {
-    // Full months in current year
-    thirteenthMonths = endDay >= 15 ? endMonth : endMonth - 1;
+  for (let year = endDate.getFullYear(); !forCause && year <= projectedEndDate.getFullYear(); year++) {
+    const yearEnd = new Date(year, 11, 31);
+    thirteenthMonths += countThirteenthMonths(startDate, projectedEndDate < yearEnd ? projectedEndDate : yearEnd);
   }
-  thirteenthMonths = Math.max(0, thirteenthMonths);
-  const proportionalThirteenth = (baseSalary / 12) * thirteenthMonths;
-  
-  // 3. Férias Proporcionais
-  // 1/12 for each 30 days worked or fraction >= 15 days
-  const vacationMonths = Math.floor(diffDaysTotal / 30);
-  const remainingDays = diffDaysTotal % 30;
-  const finalVacationMonths = remainingDays >= 15 ? vacationMonths + 1 : vacationMonths;
-  
-  const proportionalVacation = (baseSalary / 12) * (finalVacationMonths % 12);
-  const vacationOneThird = proportionalVacation / 3;
+  const proportionalThirteenth = multiplyMoney(baseSalary, thirteenthMonths, 12);
+  steps.push(
+    step('Avos de 13º', thirteenthMonths, forCause ? 'perdidos na justa causa' : `até a projeção do aviso em ${format(projectedEndDate, 'dd/MM/yyyy')}`, 'avos'),
+    step('13º proporcional', proportionalThirteenth, `${brl(baseSalary)} × ${thirteenthMonths} ÷ 12`)
+  );
   
-  // 4. Unused Vacation
-  const unusedVacationValue = (baseSalary / 30) * unusedVacationDays;
-  const unusedVacationOneThird = unusedVacationValue / 3;
-
-  let noticePeriod = 0;
-  let fgtsFine = 0;
-
-  if (type === 'sem-justa-causa') {
-    noticePeriod = baseSalary;
-    fgtsFine = fgtsBalance * 0.4;
-  } else if (type === 'comum-acordo') {
-    noticePeriod = baseSalary * 0.5;
-    fgtsFine = fgtsBalance * 0.2;
+  // 4. Férias Vencidas e Proporcionais
+  // Vencidas are always due (art. 146); proportional vacation is lost only
+  // on dismissal for cause (Súmulas 171 and 261 TST)
+  const vacationPeriods = buildVacationPeriods(startDate, projectedEndDate, vacationOptions);
+  let expiredVacation = ZERO;
+  let proportionalVacation = ZERO;
+  for (const period of vacationPeriods) {
+    const value = days(period.entitledDays);
+    const range = `${format(period.start, 'dd/MM/yyyy')} a ${format(period.end, 'dd/MM/yyyy')}`;
+    const formula = `${brl(baseSalary)} × ${decimal(period.entitledDays)} ÷ 30`;
+    if (period.status === 'vencido-simples') {
+      expiredVacation = sumMoney(expiredVacation, value);
+      steps.push(step(`Férias vencidas ${range}`, value, formula));
+    }
+    if (period.status === 'vencido-dobro') {
+      expiredVacation = sumMoney(expiredVacation, value, value);
+      steps.push(step(`Férias vencidas em dobro ${range}`, sumMoney(value, value), `(${formula}) × 2`));
+    }
+    if (period.status === 'proporcional' && !forCause) {
+      proportionalVacation = sumMoney(proportionalVacation, value);
+      steps.push(step(`Férias proporcionais ${range}`, value, `${formula} (${period.months}/12 avos)`));
+    }
+  }
+  const takenPeriodsMissing = vacationOptions.takenPeriods === undefined
+    && vacationPeriods.some(period => period.status !== 'proporcional');
+  const vacationOneThird = multiplyMoney(sumMoney(expiredVacation, proportionalVacation), 1, 3);
+  steps.push(step('1/3 sobre férias', vacationOneThird, `${brl(sumMoney(expiredVacation, proportionalVacation))} ÷ 3`));
+
+  // 5. FGTS
+  // The termination month is deposited with the rescission, indemnified
+  // notice included (Súmula 305 TST), and the fine covers it as well
+  const fgtsBase = sumMoney(salaryBalance, proportionalThirteenth, noticePeriod);
+  const fgtsDeposit = multiplyMoney(fgtsBase, 0.08);
+  steps.push(step('Depósito do FGTS', fgtsDeposit, `8% × ${brl(fgtsBase)} (saldo + 13º + aviso indenizado)`));
+  if (type === 'sem-justa-causa' || type === 'comum-acordo') {
+    const fineRate = type === 'sem-justa-causa' ? 0.4 : 0.2;
+    fgtsFine = multiplyMoney(sumMoney(fgtsBalance, fgtsDeposit), fineRate);
+    steps.push(step('Multa do FGTS', fgtsFine, `${percent(fineRate)} × (${brl(fgtsBalance)} + ${brl(fgtsDeposit)})`));
   }
 
-  const grossTotal = salaryBalance + proportionalThirteenth + proportionalVacation + vacationOneThird + unusedVacationValue + unusedVacationOneThird + noticePeriod + fgtsFine;
+  const grossTotal = sumMoney(salaryBalance, proportionalThirteenth, proportionalVacation, expiredVacation, vacationOneThird, noticePeriod, fgtsFine);
   
-  const taxableAmount = salaryBalance + proportionalThirteenth;
-  const inss = calculateINSS(taxableAmount);
-  const irrf = calculateIRRF(taxableAmount, inss);
+  const taxableAmount = sumMoney(salaryBalance, proportionalThirteenth);
+  // Rules in force on the termination date apply
+  const inssDetails = calculateINSSDetails(taxableAmount, endDate);
+  const inss = inssDetails.inss;
+  const irrfDetails = calculateIRRFDetails(taxableAmount, inss, {}, endDate);
+  const irrf = irrfDetails.irrf;
+  const netTotal = subtractMoney(grossTotal, inss, irrf, noticeDeduction);
+  steps.push(
+    step('INSS', inss, `sobre saldo de salário + 13º de ${brl(taxableAmount)}`),
+    step('IRRF', irrf, `sobre ${brl(taxableAmount)} − INSS`),
+    step('Total líquido', netTotal, `${brl(grossTotal)} − INSS − IRRF${noticeDeduction > 0 ? ' − aviso não cumprido' : ''}`)
+  );
 
   return {
+    baseSalary,
     salaryBalance,
     proportionalThirteenth,
-    proportionalVacation: proportionalVacation + unusedVacationValue,
-    vacationOneThird: vacationOneThird + unusedVacationOneThird,
+    proportionalVacation,
+    expiredVacation,
+    vacationOneThird,
+    vacationPeriods,
+    takenPeriodsMissing,
     noticePeriod,
+    noticeDays,
+    noticeDeduction,
+    projectedEndDate,
+    fgtsDeposit,
     fgtsFine,
     grossTotal,
     inss,
     irrf,
-    netTotal: grossTotal - inss - irrf
+    netTotal,
+    tableVersion: getTaxTable(endDate).version,
+    trace: { steps, inss: inssDetails, irrf: irrfDetails }
   };
 }
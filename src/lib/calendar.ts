@@ -0,0 +1,145 @@
+import { addDays, eachDayOfInterval, endOfMonth, isSameDay, startOfMonth } from 'date-fns';
+
+export type HolidayType = 'nacional' | 'movel' | 'local';
+
+export interface Holiday {
+  date: Date;
+  name: string;
+  type: HolidayType;
+}
+
+// State or municipal holiday. `date` is MM-DD for holidays that repeat every
+// year or YYYY-MM-DD for a single occurrence.
+export interface CustomHoliday {
+  date: string;
+  name: string;
+}
+
+export interface MonthDays {
+  calendarDays: number;
+  workingDays: number;
+  restDays: number;
+  businessDays: number;
+  holidays: Holiday[];
+}
+
+const FIXED_HOLIDAYS: { month: number; day: number; name: string; since?: number }[] = [
+  { month: 1, day: 1, name: 'Confraternização Universal' },
+  { month: 4, day: 21, name: 'Tiradentes' },
+  { month: 5, day: 1, name: 'Dia do Trabalho' },
+  { month: 9, day: 7, name: 'Independência do Brasil' },
+  { month: 10, day: 12, name: 'Nossa Senhora Aparecida' },
+  { month: 11, day: 2, name: 'Finados' },
+  { month: 11, day: 15, name: 'Proclamação da República' },
+  { month: 11, day: 20, name: 'Dia Nacional de Zumbi e da Consciência Negra', since: 2024 },
+  { month: 12, day: 25, name: 'Natal' },
+];
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+export function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+export function getHolidays(year: number, customHolidays: CustomHoliday[] = []): Holiday[] {
+  const holidays: Holiday[] = FIXED_HOLIDAYS
+    .filter((holiday) => !holiday.since || year >= holiday.since)
+    .map((holiday) => ({ date: new Date(year, holiday.month - 1, holiday.day), name: holiday.name, type: 'nacional' }));
+
+  const easter = getEasterSunday(year);
+  holidays.push(
+    { date: addDays(easter, -48), name: 'Carnaval', type: 'movel' },
+    { date: addDays(easter, -47), name: 'Carnaval', type: 'movel' },
+    { date: addDays(easter, -2), name: 'Sexta-feira Santa', type: 'movel' },
+    { date: addDays(easter, 60), name: 'Corpus Christi', type: 'movel' }
+  );
+
+  for (const custom of customHolidays) {
+    const parts = custom.date.split('-').map(Number);
+    const [holidayYear, month, day] = parts.length === 3 ? parts : [year, ...parts];
+    if (holidayYear === year) {
+      holidays.push({ date: new Date(year, month - 1, day), name: custom.name, type: 'local' });
+    }
+  }
+
+  return holidays.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export function isHoliday(date: Date, customHolidays: CustomHoliday[] = []): boolean {
+  return getHolidays(date.getFullYear(), customHolidays).some((holiday) => isSameDay(holiday.date, date));
+}
+
+// Sundays and holidays are the paid weekly rest days (Lei 605/49)
+export function isRestDay(date: Date, customHolidays: CustomHoliday[] = []): boolean {
+  return date.getDay() === 0 || isHoliday(date, customHolidays);
+}
+
+// Working days include Saturdays, as the DSR calculation requires; business
+// days are Monday to Friday, as used for deadlines
+export function countMonthDays(referenceDate: Date, customHolidays: CustomHoliday[] = []): MonthDays {
+  const days = eachDayOfInterval({ start: startOfMonth(referenceDate), end: endOfMonth(referenceDate) });
+  const holidays = getHolidays(referenceDate.getFullYear(), customHolidays)
+    .filter((holiday) => holiday.date.getMonth() === referenceDate.getMonth());
+  const holidayOn = (date: Date) => holidays.some((holiday) => isSameDay(holiday.date, date));
+
+  let restDays = 0;
+  let businessDays = 0;
+  for (const day of days) {
+    if (day.getDay() === 0 || holidayOn(day)) restDays++;
+    else if (day.getDay() !== 6) businessDays++;
+  }
+
+  return {
+    calendarDays: days.length,
+    workingDays: days.length - restDays,
+    restDays,
+    businessDays,
+    holidays
+  };
+}
+
+export function isBusinessDay(date: Date, customHolidays: CustomHoliday[] = []): boolean {
+  return date.getDay() !== 0 && date.getDay() !== 6 && !isHoliday(date, customHolidays);
+}
+
+export function addBusinessDays(date: Date, amount: number, customHolidays: CustomHoliday[] = []): Date {
+  let result = date;
+  let remaining = amount;
+  while (remaining > 0) {
+    result = addDays(result, 1);
+    if (isBusinessDay(result, customHolidays)) remaining--;
+  }
+  return result;
+}
+
+export function previousBusinessDay(date: Date, customHolidays: CustomHoliday[] = []): Date {
+  let result = date;
+  while (!isBusinessDay(result, customHolidays)) result = addDays(result, -1);
+  return result;
+}
+
+// Reads a free-text list such as "20/01, 25/01/2026" into custom holidays
+export function parseHolidayList(text: string): CustomHoliday[] {
+  const holidays: CustomHoliday[] = [];
+  for (const entry of text.split(/[,;\s]+/)) {
+    const match = entry.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?$/);
+    if (!match) continue;
+    const day = match[1].padStart(2, '0');
+    const month = match[2].padStart(2, '0');
+    holidays.push({ date: match[3] ? `${match[3]}-${month}-${day}` : `${month}-${day}`, name: 'Feriado local' });
+  }
+  return holidays;
+}
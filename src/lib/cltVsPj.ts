@@ -0,0 +1,243 @@
+import { calculateIRRFDetails, calculateSalary, calculateThirteenth, calculateVacation } from './calculator';
+import { fromCents, minMoney, Money, money, multiplyMoney, subtractMoney, sumMoney, toCents, ZERO } from './money';
+import { getInssCeiling, getTaxTable } from './taxTables';
+import { brl, CalculationTrace, percent, step } from './trace';
+
+export const PJ_REGIMES = ['simples', 'mei'] as const;
+
+export type PjRegime = typeof PJ_REGIMES[number];
+export type SimplesAnnex = 'III' | 'V';
+
+export interface PjOptions {
+  regime?: PjRegime;
+  proLabore?: number; // Defaults to the 28% of revenue that keeps Fator R in Anexo III
+  accountantCost?: number;
+  dependents?: number;
+  referenceDate?: Date;
+}
+
+export interface PjResult {
+  monthlyRevenue: number;
+  regime: PjRegime;
+  annex?: SimplesAnnex;
+  fatorR: number;
+  dasRate: number;
+  das: Money;
+  proLabore: Money;
+  proLaboreInss: Money;
+  proLaboreIrrf: Money;
+  accountantCost: Money;
+  monthlyNet: Money;
+  annualNet: Money;
+  meiLimitExceeded: boolean;
+  trace: CalculationTrace;
+}
+
+export interface CltAnnualResult {
+  grossSalary: Money;
+  monthlyNet: Money;
+  vacationNet: Money;
+  thirteenthNet: Money;
+  fgts: Money;
+  annualNet: Money;
+  trace: CalculationTrace;
+}
+
+export interface CltPjComparison {
+  clt: CltAnnualResult;
+  pj: PjResult;
+  equivalentPjRevenue: Money;
+  equivalentCltSalary: Money;
+}
+
+interface SimplesBracket {
+  upTo: number;
+  rate: number;
+  deduction: number;
+}
+
+// LC 155/2016 tables, by revenue in the last 12 months (RBT12)
+const ANEXO_III: SimplesBracket[] = [
+  { upTo: 180000, rate: 0.06, deduction: 0 },
+  { upTo: 360000, rate: 0.112, deduction: 9360 },
+  { upTo: 720000, rate: 0.135, deduction: 17640 },
+  { upTo: 1800000, rate: 0.16, deduction: 35640 },
+  { upTo: 3600000, rate: 0.21, deduction: 125640 },
+  { upTo: 4800000, rate: 0.33, deduction: 648000 },
+];
+
+const ANEXO_V: SimplesBracket[] = [
+  { upTo: 180000, rate: 0.155, deduction: 0 },
+  { upTo: 360000, rate: 0.18, deduction: 4500 },
+  { upTo: 720000, rate: 0.195, deduction: 9900 },
+  { upTo: 1800000, rate: 0.205, deduction: 17100 },
+  { upTo: 3600000, rate: 0.23, deduction: 62100 },
+  { upTo: 4800000, rate: 0.305, deduction: 540000 },
+];
+
+const FATOR_R_THRESHOLD = 0.28;
+const CONTRIBUINTE_INDIVIDUAL_RATE = 0.11;
+const MEI_ANNUAL_LIMIT = 81000;
+const MEI_INSS_RATE = 0.05;
+const MEI_ISS = 5;
+
+function effectiveSimplesRate(annex: SimplesAnnex, annualRevenue: number): number {
+  if (annualRevenue <= 0) return 0;
+  const table = annex === 'III' ? ANEXO_III : ANEXO_V;
+  const bracket = table.find((b) => annualRevenue <= b.upTo) ?? table[table.length - 1];
+  return (annualRevenue * bracket.rate - bracket.deduction) / annualRevenue;
+}
+
+export function calculatePj(monthlyRevenue: number, options: PjOptions = {}): PjResult {
+  const { regime = 'simples', accountantCost = 0, dependents = 0, referenceDate = new Date() } = options;
+  const table = getTaxTable(referenceDate);
+  const annualRevenue = monthlyRevenue * 12;
+
+  if (regime === 'mei') {
+    // The DAS-MEI already includes the owner's INSS
+    const das = sumMoney(multiplyMoney(table.minimumWage, MEI_INSS_RATE), MEI_ISS);
+    const monthlyNet = subtractMoney(monthlyRevenue, das, accountantCost);
+    const annualNet = multiplyMoney(monthlyNet, 12);
+    const steps = [
+      step('DAS-MEI', das, `${percent(MEI_INSS_RATE)} × salário mínimo de ${brl(table.minimumWage)} + ${brl(MEI_ISS)} de ISS`),
+      ...(accountantCost > 0 ? [step('Contador', money(accountantCost))] : []),
+      step('Líquido mensal', monthlyNet, `${brl(monthlyRevenue)} − DAS − contador`),
+      step('Líquido anual', annualNet, `${brl(monthlyNet)} × 12`)
+    ];
+    return {
+      monthlyRevenue,
+      regime,
+      fatorR: 0,
+      dasRate: monthlyRevenue > 0 ? das / monthlyRevenue : 0,
+      das,
+      proLabore: ZERO,
+      proLaboreInss: ZERO,
+      proLaboreIrrf: ZERO,
+      accountantCost: money(accountantCost),
+      monthlyNet,
+      annualNet,
+      meiLimitExceeded: annualRevenue > MEI_ANNUAL_LIMIT,
+      trace: { steps }
+    };
+  }
+
+  const proLabore = money(options.proLabore ?? Math.max(table.minimumWage, monthlyRevenue * FATOR_R_THRESHOLD));
+  const proLaboreInss = multiplyMoney(minMoney(proLabore, getInssCeiling(table)), CONTRIBUINTE_INDIVIDUAL_RATE);
+  const irrfDetails = calculateIRRFDetails(proLabore, proLaboreInss, { dependents }, referenceDate);
+  const proLaboreIrrf = irrfDetails.irrf;
+
+  // Fator R: payroll over revenue decides between Anexo III and V
+  const fatorR = monthlyRevenue > 0 ? proLabore / monthlyRevenue : 0;
+  const annex: SimplesAnnex = fatorR >= FATOR_R_THRESHOLD - 1e-9 ? 'III' : 'V';
+  const dasRate = effectiveSimplesRate(annex, annualRevenue);
+  const das = multiplyMoney(monthlyRevenue, dasRate);
+
+  // Profit distribution is tax-free, so the owner keeps everything but taxes
+  const monthlyNet = subtractMoney(monthlyRevenue, das, accountantCost, proLaboreInss, proLaboreIrrf);
+  const annualNet = multiplyMoney(monthlyNet, 12);
+
+  const steps = [
+    step('Pró-labore', proLabore, options.proLabore === undefined ? `${percent(FATOR_R_THRESHOLD)} × ${brl(monthlyRevenue)}, mínimo de um salário mínimo` : undefined),
+    step('INSS do pró-labore', proLaboreInss, `${percent(CONTRIBUINTE_INDIVIDUAL_RATE)} × ${brl(minMoney(proLabore, getInssCeiling(table)))}`),
+    step('IRRF do pró-labore', proLaboreIrrf),
+    step('Fator R', fatorR, `${brl(proLabore)} ÷ ${brl(monthlyRevenue)}: Anexo ${annex}`, 'factor'),
+    step('DAS', das, `alíquota efetiva de ${percent(dasRate)} × ${brl(monthlyRevenue)}, receita anual de ${brl(annualRevenue)}`),
+    ...(accountantCost > 0 ? [step('Contador', money(accountantCost))] : []),
+    step('Líquido mensal', monthlyNet, `${brl(monthlyRevenue)} − DAS − contador − INSS − IRRF`),
+    step('Líquido anual', annualNet, `${brl(monthlyNet)} × 12`)
+  ];
+
+  return {
+    monthlyRevenue,
+    regime,
+    annex,
+    fatorR,
+    dasRate,
+    das,
+    proLabore,
+    proLaboreInss,
+    proLaboreIrrf,
+    accountantCost: money(accountantCost),
+    monthlyNet,
+    annualNet,
+    meiLimitExceeded: false,
+    trace: { steps, irrf: irrfDetails }
+  };
+}
+
+// A CLT year: 11 months of salary, one month of vacation + 1/3, the 13º and
+// the FGTS deposited over all of them
+export function calculateCltAnnual(
+  grossSalary: number,
+  dependents: number = 0,
+  referenceDate: Date = new Date()
+): CltAnnualResult {
+  const salary = calculateSalary(grossSalary, dependents, [], referenceDate);
+  const vacation = calculateVacation(grossSalary, 30, false, dependents, 0, 0, referenceDate);
+  const thirteenth = calculateThirteenth(grossSalary, new Date(referenceDate.getFullYear() - 1, 0, 1), dependents, 0, referenceDate);
+  const fgts = sumMoney(multiplyMoney(salary.fgts, 11), multiplyMoney(vacation.grossTotal, 0.08), thirteenth.fgts);
+  const annualNet = sumMoney(multiplyMoney(salary.netSalary, 11), vacation.netTotal, thirteenth.netTotal, fgts);
+
+  const steps = [
+    step('Salários líquidos', multiplyMoney(salary.netSalary, 11), `${brl(salary.netSalary)} × 11`),
+    step('Férias + 1/3 líquidas', vacation.netTotal),
+    step('13º líquido', thirteenth.netTotal),
+    step('FGTS', fgts, `8% × (11 salários + férias + 1/3 + 13º)`),
+    step('Líquido anual', annualNet)
+  ];
+
+  return {
+    grossSalary: money(grossSalary),
+    monthlyNet: salary.netSalary,
+    vacationNet: vacation.netTotal,
+    thirteenthNet: thirteenth.netTotal,
+    fgts,
+    annualNet,
+    trace: { steps, inss: salary.trace.inss, irrf: salary.trace.irrf }
+  };
+}
+
+const MAX_EQUIVALENT_CENTS = 1e11;
+
+// Lowest amount, in whole centavos, whose annual net reaches the target.
+// Bisection over a monotonic-enough annual net function.
+function solveFor(target: number, annualNet: (value: Money) => number): Money {
+  const targetCents = toCents(target);
+  const reaches = (cents: number) => toCents(annualNet(fromCents(cents))) >= targetCents;
+
+  let low = 0;
+  let high = Math.max(100_000, targetCents);
+  if (reaches(low)) return ZERO;
+  while (!reaches(high) && high < MAX_EQUIVALENT_CENTS) high = Math.min(high * 2, MAX_EQUIVALENT_CENTS);
+  while (high - low > 1) {
+    const mid = Math.floor((low + high) / 2);
+    if (reaches(mid)) high = mid;
+    else low = mid;
+  }
+  return fromCents(high);
+}
+
+export function findEquivalentPjRevenue(cltAnnualNet: number, options: PjOptions = {}): Money {
+  return solveFor(cltAnnualNet, (revenue) => calculatePj(revenue, options).annualNet);
+}
+
+export function findEquivalentCltSalary(
+  pjAnnualNet: number,
+  dependents: number = 0,
+  referenceDate: Date = new Date()
+): Money {
+  return solveFor(pjAnnualNet, (gross) => calculateCltAnnual(gross, dependents, referenceDate).annualNet);
+}
+
+export function compareCltPj(grossSalary: number, monthlyRevenue: number, options: PjOptions = {}): CltPjComparison {
+  const { dependents = 0, referenceDate = new Date() } = options;
+  const clt = calculateCltAnnual(grossSalary, dependents, referenceDate);
+  const pj = calculatePj(monthlyRevenue, options);
+
+  return {
+    clt,
+    pj,
+    equivalentPjRevenue: findEquivalentPjRevenue(clt.annualNet, options),
+    equivalentCltSalary: findEquivalentCltSalary(pj.annualNet, dependents, referenceDate)
+  };
+}
@@ -0,0 +1,66 @@
+import { maxMoney, minMoney, Money, multiplyMoney, ZERO } from './money';
+
+export type DeductionType =
+  | 'vale-transporte'
+  | 'vale-refeicao'
+  | 'vale-alimentacao'
+  | 'plano-saude'
+  | 'plano-odontologico'
+  | 'pensao-alimenticia'
+  | 'previdencia-privada'
+  | 'consignado'
+  | 'outros';
+
+export type AlimonyBase = 'bruto' | 'liquido';
+
+// `value` holds the benefit cost for vale-transporte, the benefit value for
+// VR/VA and the installment or fixed amount for the other types. Pensão uses
+// `percentage` over `alimonyBase` instead.
+export interface PayrollDeduction {
+  type: DeductionType;
+  value: number;
+  percentage?: number;
+  alimonyBase?: AlimonyBase;
+}
+
+export interface DeductionLine {
+  type: DeductionType;
+  label: string;
+  amount: Money;
+}
+
+export const DEDUCTION_LABELS: Record<DeductionType, string> = {
+  'vale-transporte': 'Vale-Transporte',
+  'vale-refeicao': 'Vale-Refeição',
+  'vale-alimentacao': 'Vale-Alimentação',
+  'plano-saude': 'Plano de Saúde',
+  'plano-odontologico': 'Plano Odontológico',
+  'pensao-alimenticia': 'Pensão Alimentícia',
+  'previdencia-privada': 'Previdência Privada',
+  'consignado': 'Empréstimo Consignado',
+  'outros': 'Outros Descontos'
+};
+
+// Lei 7.418/85: the employee pays up to 6% of the base salary
+export const TRANSPORT_VOUCHER_RATE = 0.06;
+
+// Lei 10.820/2003: loan installments are limited to 35% of the available pay
+export const PAYROLL_LOAN_MARGIN = 0.35;
+
+// Amount of the deductions whose value does not depend on taxes. Pensão over
+// net pay is resolved together with the IRRF in calculateSalary.
+export function calculateDeductionAmount(deduction: PayrollDeduction, baseSalary: number, grossSalary: number): Money {
+  const value = maxMoney(0, deduction.value);
+  const percentage = Math.max(0, deduction.percentage ?? 0) / 100;
+  switch (deduction.type) {
+    case 'vale-transporte':
+      return minMoney(multiplyMoney(baseSalary, TRANSPORT_VOUCHER_RATE), value);
+    case 'vale-refeicao':
+    case 'vale-alimentacao':
+      return multiplyMoney(value, percentage);
+    case 'pensao-alimenticia':
+      return deduction.alimonyBase === 'liquido' ? ZERO : multiplyMoney(grossSalary, percentage);
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,103 @@
+import { Money, money, multiplyMoney, sumMoney } from './money';
+import { brl, CalculationTrace, percent, step } from './trace';
+
+export type TaxRegime = 'lucro-real' | 'lucro-presumido' | 'simples' | 'simples-anexo-iv';
+
+export interface EmployerCostOptions {
+  regime?: TaxRegime;
+  rat?: number; // RAT/GILRAT rate in %, 1 to 3
+  fap?: number; // Fator Acidentário de Prevenção, 0.5 to 2.0
+  thirdParties?: number; // Terceiros/Sistema S rate in %
+  benefits?: number; // Monthly benefits paid by the employer
+}
+
+export interface EmployerCostResult {
+  grossSalary: Money;
+  regime: TaxRegime;
+  chargesRate: number;
+  employerInss: Money;
+  ratFap: Money;
+  thirdParties: Money;
+  fgts: Money;
+  thirteenthProvision: Money;
+  vacationProvision: Money;
+  provisionCharges: Money;
+  benefits: Money;
+  monthlyTotal: Money;
+  annualTotal: Money;
+  trace: CalculationTrace;
+}
+
+export const TAX_REGIME_LABELS: Record<TaxRegime, string> = {
+  'lucro-real': 'Lucro Real',
+  'lucro-presumido': 'Lucro Presumido',
+  'simples': 'Simples Nacional (Anexos I, II, III e V)',
+  'simples-anexo-iv': 'Simples Nacional (Anexo IV)'
+};
+
+const EMPLOYER_INSS_RATE = 0.2;
+const FGTS_RATE = 0.08;
+
+// Simples Nacional pays the CPP inside the DAS, except for Anexo IV, and is
+// exempt from terceiros in every annex (LC 123/2006, art. 13, § 3º)
+function chargeRates(regime: TaxRegime, rat: number, fap: number, thirdParties: number) {
+  const paysCpp = regime !== 'simples';
+  const paysThirdParties = regime === 'lucro-real' || regime === 'lucro-presumido';
+  return {
+    employerInss: paysCpp ? EMPLOYER_INSS_RATE : 0,
+    ratFap: paysCpp ? (rat / 100) * fap : 0,
+    thirdParties: paysThirdParties ? thirdParties / 100 : 0,
+    fgts: FGTS_RATE
+  };
+}
+
+export function calculateEmployerCost(grossSalary: number, options: EmployerCostOptions = {}): EmployerCostResult {
+  const { regime = 'lucro-presumido', rat = 2, fap = 1, thirdParties = 5.8, benefits = 0 } = options;
+  const rates = chargeRates(regime, rat, fap, thirdParties);
+  const chargesRate = rates.employerInss + rates.ratFap + rates.thirdParties + rates.fgts;
+
+  // 13º and vacation + 1/3 accrue 1/12 a month, and bear the same charges
+  const thirteenthProvision = multiplyMoney(grossSalary, 1, 12);
+  const vacationProvision = multiplyMoney(grossSalary, 4, 36);
+  const provisionCharges = multiplyMoney(sumMoney(thirteenthProvision, vacationProvision), chargesRate);
+
+  const employerInss = multiplyMoney(grossSalary, rates.employerInss);
+  const ratFap = multiplyMoney(grossSalary, rates.ratFap);
+  const thirdPartiesValue = multiplyMoney(grossSalary, rates.thirdParties);
+  const fgts = multiplyMoney(grossSalary, rates.fgts);
+
+  const monthlyTotal = sumMoney(grossSalary, employerInss, ratFap, thirdPartiesValue, fgts,
+    thirteenthProvision, vacationProvision, provisionCharges, benefits);
+  const annualTotal = multiplyMoney(monthlyTotal, 12);
+
+  const steps = [
+    step('Salário bruto', money(grossSalary)),
+    step('INSS patronal', employerInss, `${percent(rates.employerInss)} × ${brl(grossSalary)}`),
+    step('RAT ajustado', ratFap, `${percent(rates.ratFap)} × ${brl(grossSalary)} (RAT ${percent(rat / 100)} × FAP ${fap})`),
+    step('Terceiros', thirdPartiesValue, `${percent(rates.thirdParties)} × ${brl(grossSalary)}`),
+    step('FGTS', fgts, `${percent(rates.fgts)} × ${brl(grossSalary)}`),
+    step('Provisão de 13º', thirteenthProvision, `${brl(grossSalary)} ÷ 12`),
+    step('Provisão de férias + 1/3', vacationProvision, `${brl(grossSalary)} × 4 ÷ 36`),
+    step('Encargos sobre provisões', provisionCharges, `${percent(chargesRate)} × ${brl(sumMoney(thirteenthProvision, vacationProvision))}`),
+    ...(benefits > 0 ? [step('Benefícios', money(benefits))] : []),
+    step('Custo mensal', monthlyTotal),
+    step('Custo anual', annualTotal, `${brl(monthlyTotal)} × 12`)
+  ];
+
+  return {
+    grossSalary: money(grossSalary),
+    regime,
+    chargesRate,
+    employerInss,
+    ratFap,
+    thirdParties: thirdPartiesValue,
+    fgts,
+    thirteenthProvision,
+    vacationProvision,
+    provisionCharges,
+    benefits: money(benefits),
+    monthlyTotal,
+    annualTotal,
+    trace: { steps }
+  };
+}
@@ -0,0 +1,138 @@
+import { addMonths, format, startOfMonth } from 'date-fns';
+import { countThirteenthMonths, TerminationType } from './calculator';
+import { minMoney, Money, money, multiplyMoney, subtractMoney, sumMoney, ZERO } from './money';
+
+// A salary in force from the competence `from` (YYYY-MM) onwards
+export interface SalaryChange {
+  from: string;
+  salary: number;
+}
+
+export interface FgtsOptions {
+  salaryHistory?: SalaryChange[];
+  trRate?: number; // Monthly TR in %, added to the 3% a.a. JAM
+}
+
+export interface FgtsMonth {
+  competence: string;
+  salary: number;
+  deposit: Money;
+  interest: Money;
+  balance: Money;
+}
+
+export interface FgtsSimulation {
+  months: FgtsMonth[];
+  deposits: Money;
+  interest: Money;
+  balance: Money;
+}
+
+export interface AnniversaryWithdrawal {
+  rate: number;
+  additional: number;
+  amount: Money;
+}
+
+export interface FgtsRelease {
+  balance: Money;
+  fine: Money;
+  total: Money;
+  blockedByAnniversary: boolean;
+}
+
+interface AnniversaryBracket {
+  upTo: number;
+  rate: number;
+  additional: number;
+}
+
+// Lei 13.932/2019, Anexo: share of the balance plus a fixed additional
+const ANNIVERSARY_BRACKETS: AnniversaryBracket[] = [
+  { upTo: 500, rate: 0.5, additional: 0 },
+  { upTo: 1000, rate: 0.4, additional: 50 },
+  { upTo: 5000, rate: 0.3, additional: 150 },
+  { upTo: 10000, rate: 0.2, additional: 650 },
+  { upTo: 15000, rate: 0.15, additional: 1150 },
+  { upTo: 20000, rate: 0.1, additional: 1900 },
+  { upTo: Infinity, rate: 0.05, additional: 2900 },
+];
+
+export const FGTS_RATE = 0.08;
+
+// Lei 8.036/90, art. 13: 3% a.a. capitalized monthly, plus TR
+const JAM_MONTHLY_RATE = Math.pow(1.03, 1 / 12) - 1;
+
+function salaryFor(competence: string, baseSalary: number, history: SalaryChange[]): number {
+  let salary = baseSalary;
+  for (const change of history) {
+    if (change.from <= competence) salary = change.salary;
+  }
+  return salary;
+}
+
+// Rebuilds the balance from the deposits of every competence before the one
+// of `endDate`, which is deposited only with the termination. Vacation 1/3 is
+// assumed to be paid in the month after each acquisition period closes.
+export function simulateFgts(
+  baseSalary: number,
+  admissionDate: Date,
+  endDate: Date,
+  options: FgtsOptions = {}
+): FgtsSimulation {
+  const history = [...(options.salaryHistory ?? [])].sort((a, b) => a.from.localeCompare(b.from));
+  const monthlyRate = JAM_MONTHLY_RATE + (options.trRate ?? 0) / 100;
+  const lastMonth = startOfMonth(endDate);
+
+  const months: FgtsMonth[] = [];
+  let balance = ZERO;
+  let deposits = ZERO;
+  let interest = ZERO;
+
+  for (let month = startOfMonth(admissionDate), index = 0; month < lastMonth; month = addMonths(month, 1), index++) {
+    const competence = format(month, 'yyyy-MM');
+    const salary = salaryFor(competence, baseSalary, history);
+
+    // The admission month pays only the days worked
+    const workedDays = index === 0 ? Math.min(30, 31 - admissionDate.getDate()) : 30;
+    let base = multiplyMoney(salary, workedDays, 30);
+
+    if (month.getMonth() === 11) {
+      base = sumMoney(base, multiplyMoney(salary, countThirteenthMonths(admissionDate, new Date(month.getFullYear(), 11, 31)), 12));
+    }
+    if (index > 0 && index % 12 === 0) {
+      base = sumMoney(base, multiplyMoney(salary, 1, 3));
+    }
+
+    // The account is credited in centavos, interest and deposit alike
+    const monthInterest = multiplyMoney(balance, monthlyRate);
+    const deposit = multiplyMoney(base, FGTS_RATE);
+    balance = sumMoney(balance, monthInterest, deposit);
+    deposits = sumMoney(deposits, deposit);
+    interest = sumMoney(interest, monthInterest);
+    months.push({ competence, salary, deposit, interest: monthInterest, balance });
+  }
+
+  return { months, deposits, interest, balance };
+}
+
+export function calculateAnniversaryWithdrawal(balance: number): AnniversaryWithdrawal {
+  const bracket = ANNIVERSARY_BRACKETS.find((b) => balance <= b.upTo) ?? ANNIVERSARY_BRACKETS[ANNIVERSARY_BRACKETS.length - 1];
+  const amount = balance > 0 ? sumMoney(multiplyMoney(balance, bracket.rate), bracket.additional) : ZERO;
+  return { rate: bracket.rate, additional: bracket.additional, amount: minMoney(balance, amount) };
+}
+
+// Art. 20, I and art. 484-A, § 1º: dismissal without cause releases the
+// balance, comum acordo up to 80% of it. Under saque-aniversário only the
+// fine is released (art. 20-D, § 7º).
+export function calculateFgtsRelease(
+  balance: number,
+  fine: number,
+  type: TerminationType,
+  anniversaryWithdrawal: boolean = false
+): FgtsRelease {
+  const share = type === 'sem-justa-causa' ? 1 : type === 'comum-acordo' ? 0.8 : 0;
+  const blockedByAnniversary = anniversaryWithdrawal && share > 0;
+  const released = blockedByAnniversary ? ZERO : multiplyMoney(balance, share);
+  return { balance: released, fine: money(fine), total: sumMoney(released, fine), blockedByAnniversary };
+}
@@ -0,0 +1,198 @@
+import { HAZARDS, HazardType, TERMINATION_TYPES, TerminationType } from './calculator';
+import { PJ_REGIMES, PjRegime } from './cltVsPj';
+import { DEDUCTION_LABELS, DeductionType, PayrollDeduction } from './deductions';
+import { TaxRegime, TAX_REGIME_LABELS } from './employerCost';
+import { SalaryChange } from './fgts';
+import { toCompetence } from './taxTables';
+
+export type Tab = 'salary' | 'hours' | 'vacation' | 'thirteenth' | 'termination' | 'unemployment' | 'employer' | 'compare';
+
+export const TABS: Tab[] = ['salary', 'hours', 'vacation', 'thirteenth', 'termination', 'unemployment', 'employer', 'compare'];
+
+// Number inputs keep '' while the field is being edited
+export type NumericInput = number | string;
+
+// Every value the calculator needs to reproduce a scenario. Imported
+// timesheets and document header fields are left out on purpose.
+export interface CalculatorInputs {
+  tab: Tab;
+  competence: string;
+  grossSalary: NumericInput;
+  dependents: NumericInput;
+  deductions: PayrollDeduction[];
+  bonuses: NumericInput;
+  hazard: HazardType;
+  monthlyHours: NumericInput;
+  overtimeHours: NumericInput;
+  overtimePercent: number;
+  nightHours: NumericInput;
+  localHolidays: string;
+  vacationDays: number;
+  sellTenDays: boolean;
+  unusedVacationDays: NumericInput;
+  variableAverage: NumericInput;
+  taxRegime: TaxRegime;
+  ratRate: number;
+  fap: NumericInput;
+  thirdPartiesRate: NumericInput;
+  employerBenefits: NumericInput;
+  pjRevenue: NumericInput;
+  pjRegime: PjRegime;
+  proLabore: NumericInput;
+  accountantCost: NumericInput;
+  terminationType: TerminationType;
+  startDate: string;
+  endDate: string;
+  fgtsBalance: NumericInput;
+  simulateFgtsBalance: boolean;
+  salaryHistory: SalaryChange[];
+  anniversaryWithdrawal: boolean;
+  noticeWorked: boolean;
+  takenVacationPeriods: NumericInput;
+  periodAbsences: number[];
+  lastSalaries: NumericInput[];
+  monthsWorked: NumericInput;
+  previousClaims: number;
+}
+
+export function defaultInputs(today: Date = new Date()): CalculatorInputs {
+  return {
+    tab: 'salary',
+    competence: toCompetence(today),
+    grossSalary: 3500,
+    dependents: 0,
+    deductions: [],
+    bonuses: 0,
+    hazard: 'none',
+    monthlyHours: 220,
+    overtimeHours: 10,
+    overtimePercent: 50,
+    nightHours: 0,
+    localHolidays: '',
+    vacationDays: 30,
+    sellTenDays: false,
+    unusedVacationDays: 0,
+    variableAverage: 0,
+    taxRegime: 'lucro-presumido',
+    ratRate: 2,
+    fap: 1,
+    thirdPartiesRate: 5.8,
+    employerBenefits: 0,
+    pjRevenue: 6000,
+    pjRegime: 'simples',
+    proLabore: '',
+    accountantCost: 300,
+    terminationType: 'sem-justa-causa',
+    startDate: '2023-01-01',
+    endDate: today.toISOString().split('T')[0],
+    fgtsBalance: 5000,
+    simulateFgtsBalance: true,
+    salaryHistory: [],
+    anniversaryWithdrawal: false,
+    noticeWorked: false,
+    // Empty counts no period as taken, with a warning that it was not informed
+    takenVacationPeriods: '',
+    periodAbsences: [],
+    lastSalaries: ['', '', ''],
+    monthsWorked: '',
+    previousClaims: 0
+  };
+}
+
+const TAX_REGIMES = Object.keys(TAX_REGIME_LABELS) as TaxRegime[];
+const DEDUCTION_TYPES = Object.keys(DEDUCTION_LABELS) as DeductionType[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isAmount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isNumericInput = (value: unknown): value is NumericInput => value === '' || isAmount(value);
+const matches = (pattern: RegExp) => (value: unknown): value is string =>
+  typeof value === 'string' && pattern.test(value);
+const oneOf = <T extends string>(options: readonly T[]) => (value: unknown): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+const isMonth = matches(/^\d{4}-(0[1-9]|1[0-2])$/);
+const isDate = matches(/^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/);
+
+function isDeduction(value: unknown): value is PayrollDeduction {
+  return isRecord(value)
+    && oneOf(DEDUCTION_TYPES)(value.type)
+    && isAmount(value.value)
+    && (value.percentage === undefined || isAmount(value.percentage))
+    && (value.alimonyBase === undefined || value.alimonyBase === 'bruto' || value.alimonyBase === 'liquido');
+}
+
+function isSalaryChange(value: unknown): value is SalaryChange {
+  return isRecord(value) && isMonth(value.from) && isAmount(value.salary);
+}
+
+const listOf = <T>(check: (value: unknown) => value is T) => (value: unknown): value is T[] =>
+  Array.isArray(value) && value.every(check);
+
+const VALIDATORS: { [K in keyof CalculatorInputs]: (value: unknown) => boolean } = {
+  tab: oneOf(TABS),
+  competence: isMonth,
+  grossSalary: isNumericInput,
+  dependents: isNumericInput,
+  deductions: listOf(isDeduction),
+  bonuses: isNumericInput,
+  hazard: oneOf(HAZARDS),
+  monthlyHours: isNumericInput,
+  overtimeHours: isNumericInput,
+  overtimePercent: isAmount,
+  nightHours: isNumericInput,
+  localHolidays: (value) => typeof value === 'string' && value.length <= 500,
+  vacationDays: (value) => isAmount(value) && value >= 1 && value <= 30,
+  sellTenDays: (value) => typeof value === 'boolean',
+  unusedVacationDays: isNumericInput,
+  variableAverage: isNumericInput,
+  taxRegime: oneOf(TAX_REGIMES),
+  ratRate: (value) => value === 1 || value === 2 || value === 3,
+  fap: isNumericInput,
+  thirdPartiesRate: isNumericInput,
+  employerBenefits: isNumericInput,
+  pjRevenue: isNumericInput,
+  pjRegime: oneOf(PJ_REGIMES),
+  proLabore: isNumericInput,
+  accountantCost: isNumericInput,
+  terminationType: oneOf(TERMINATION_TYPES),
+  startDate: isDate,
+  endDate: isDate,
+  fgtsBalance: isNumericInput,
+  simulateFgtsBalance: (value) => typeof value === 'boolean',
+  salaryHistory: listOf(isSalaryChange),
+  anniversaryWithdrawal: (value) => typeof value === 'boolean',
+  noticeWorked: (value) => typeof value === 'boolean',
+  takenVacationPeriods: isNumericInput,
+  periodAbsences: listOf(isAmount),
+  lastSalaries: (value) => listOf(isNumericInput)(value) && value.length === 3,
+  monthsWorked: isNumericInput,
+  previousClaims: (value) => value === 0 || value === 1 || value === 2
+};
+
+// Keeps every valid field of `raw` and falls back to the defaults for
+// missing or invalid ones, so a partly broken scenario still loads
+export function sanitizeInputs(raw: unknown, defaults: CalculatorInputs = defaultInputs()): CalculatorInputs {
+  const inputs = { ...defaults };
+  if (!isRecord(raw)) return inputs;
+  for (const key of Object.keys(VALIDATORS) as (keyof CalculatorInputs)[]) {
+    if (VALIDATORS[key](raw[key])) (inputs as Record<string, unknown>)[key] = raw[key];
+  }
+  return inputs;
+}
+
+// Strict counterpart of sanitizeInputs for partial input objects: keeps the
+// valid fields and names every unknown or invalid one
+export function validateInputFields(raw: Record<string, unknown>): { inputs: Partial<CalculatorInputs>; invalid: string[] } {
+  const inputs: Partial<CalculatorInputs> = {};
+  const invalid: string[] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    if (key in VALIDATORS && VALIDATORS[key as keyof CalculatorInputs](value)) {
+      (inputs as Record<string, unknown>)[key] = value;
+    } else {
+      invalid.push(key);
+    }
+  }
+  return { inputs, invalid };
+}
@@ -0,0 +1,48 @@
+// An amount in reais that is always a whole number of centavos. Values are
+// only produced by the helpers below, which do their arithmetic on integer
+// centavos, so line items built with them add up to their totals exactly.
+export type Money = number & { readonly __money: 'centavos' };
+
+// Half away from zero, after dropping binary noise such as
+// 1.005 * 100 = 100.49999999999999
+function roundCents(cents: number): number {
+  return Math.sign(cents) * Math.round(Number(Math.abs(cents).toPrecision(15))) + 0;
+}
+
+export function toCents(reais: number): number {
+  return roundCents(reais * 100);
+}
+
+export function fromCents(cents: number): Money {
+  return (roundCents(cents) / 100) as Money;
+}
+
+// Rounds a computed value to the centavo. Payroll rounds each line item once,
+// when it is computed, never the totals.
+export function money(reais: number): Money {
+  return fromCents(toCents(reais));
+}
+
+export function sumMoney(...values: number[]): Money {
+  return fromCents(values.reduce((total, value) => total + toCents(value), 0));
+}
+
+export function subtractMoney(value: number, ...values: number[]): Money {
+  return fromCents(toCents(value) - values.reduce((total, item) => total + toCents(item), 0));
+}
+
+// value × factor ÷ divisor, rounded once at the end: salary × 17 ÷ 30 gives
+// the saldo de salário without rounding the daily rate first
+export function multiplyMoney(value: number, factor: number, divisor: number = 1): Money {
+  return fromCents((toCents(value) * factor) / divisor);
+}
+
+export function maxMoney(...values: number[]): Money {
+  return fromCents(Math.max(...values.map(toCents)));
+}
+
+export function minMoney(...values: number[]): Money {
+  return fromCents(Math.min(...values.map(toCents)));
+}
+
+export const ZERO: Money = fromCents(0);
@@ -0,0 +1,203 @@
+import { jsPDF } from 'jspdf';
+import { HazardType, SalaryResult } from './calculator';
+import { DeductionType } from './deductions';
+import { Money, subtractMoney, sumMoney, ZERO } from './money';
+import { formatMoney, parseLocalDate } from './utils';
+
+export interface DocumentHeader {
+  employerName: string;
+  employerDocument: string; // CNPJ or CPF
+  employeeName: string;
+  employeeRole: string;
+}
+
+export interface PayslipLine {
+  code: string;
+  description: string;
+  reference: string;
+  earning: Money;
+  deduction: Money;
+}
+
+export interface Payslip {
+  header: DocumentHeader;
+  competence: string; // YYYY-MM
+  lines: PayslipLine[];
+  totalEarnings: Money;
+  totalDeductions: Money;
+  netPay: Money;
+  baseSalary: Money;
+  inssBase: Money;
+  fgtsBase: Money;
+  fgtsDeposit: Money;
+  irrfBase: Money;
+  tableVersion: string;
+}
+
+export const EMPTY_DOCUMENT_HEADER: DocumentHeader = {
+  employerName: '',
+  employerDocument: '',
+  employeeName: '',
+  employeeRole: ''
+};
+
+// Rubric codes follow the usual payroll layout: earnings from 001, legal
+// deductions from 901 and other deductions from 910
+const HAZARD_RUBRICS: Record<Exclude<HazardType, 'none'>, [string, string]> = {
+  'insalubridade-minimo': ['010', 'Adicional de Insalubridade 10%'],
+  'insalubridade-medio': ['011', 'Adicional de Insalubridade 20%'],
+  'insalubridade-maximo': ['012', 'Adicional de Insalubridade 40%'],
+  'periculosidade': ['013', 'Adicional de Periculosidade 30%']
+};
+
+const DEDUCTION_RUBRICS: Record<DeductionType, string> = {
+  'vale-transporte': '910',
+  'vale-refeicao': '911',
+  'vale-alimentacao': '912',
+  'plano-saude': '913',
+  'plano-odontologico': '914',
+  'pensao-alimenticia': '915',
+  'previdencia-privada': '916',
+  'consignado': '917',
+  'outros': '919'
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2).replace('.', ',')}%`;
+
+export function buildPayslip(
+  result: SalaryResult,
+  competence: string,
+  header: DocumentHeader = EMPTY_DOCUMENT_HEADER,
+  hazard: HazardType = 'none'
+): Payslip {
+  const lines: PayslipLine[] = [
+    { code: '001', description: 'Salário Base', reference: '30 dias', earning: result.baseSalary, deduction: ZERO }
+  ];
+  if (result.bonuses > 0) {
+    lines.push({ code: '002', description: 'Bônus / Comissões', reference: '', earning: result.bonuses, deduction: ZERO });
+  }
+  if (hazard !== 'none' && result.hazardPay > 0) {
+    const [code, description] = HAZARD_RUBRICS[hazard];
+    lines.push({ code, description, reference: '', earning: result.hazardPay, deduction: ZERO });
+  }
+
+  const effectiveInss = result.grossSalary > 0 ? result.inss / result.grossSalary : 0;
+  lines.push({ code: '901', description: 'INSS', reference: formatPercent(effectiveInss), earning: ZERO, deduction: result.inss });
+  if (result.irrf > 0) {
+    const reference = result.irrfMethod === 'simplified' ? 'Simplificado' : formatPercent(result.irrf / result.irrfBase);
+    lines.push({ code: '902', description: 'IRRF', reference, earning: ZERO, deduction: result.irrf });
+  }
+  for (const line of result.deductionLines) {
+    if (line.amount > 0) {
+      lines.push({ code: DEDUCTION_RUBRICS[line.type], description: line.label, reference: '', earning: ZERO, deduction: line.amount });
+    }
+  }
+
+  const totalEarnings = sumMoney(...lines.map((line) => line.earning));
+  const totalDeductions = sumMoney(...lines.map((line) => line.deduction));
+
+  return {
+    header,
+    competence,
+    lines,
+    totalEarnings,
+    totalDeductions,
+    netPay: subtractMoney(totalEarnings, totalDeductions),
+    baseSalary: result.baseSalary,
+    inssBase: result.grossSalary,
+    fgtsBase: result.grossSalary,
+    fgtsDeposit: result.fgts,
+    irrfBase: result.irrfBase,
+    tableVersion: result.tableVersion
+  };
+}
+
+export function formatCompetence(competence: string): string {
+  return parseLocalDate(competence).toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' });
+}
+
+// A4 portrait, in millimetres
+export function renderPayslipPdf(payslip: Payslip): jsPDF {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const left = 15;
+  const right = 195;
+  let y = 18;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.text('Recibo de Pagamento de Salário', left, y);
+  doc.setFontSize(10);
+  doc.text(`Competência: ${formatCompetence(payslip.competence)}`, right, y, { align: 'right' });
+
+  y += 8;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`Empregador: ${payslip.header.employerName || '-'}`, left, y);
+  doc.text(`CNPJ/CPF: ${payslip.header.employerDocument || '-'}`, right, y, { align: 'right' });
+  y += 5;
+  doc.text(`Empregado: ${payslip.header.employeeName || '-'}`, left, y);
+  doc.text(`Cargo: ${payslip.header.employeeRole || '-'}`, right, y, { align: 'right' });
+
+  y += 4;
+  doc.line(left, y, right, y);
+  y += 5;
+  doc.setFont('helvetica', 'bold');
+  doc.text('Cód.', left, y);
+  doc.text('Descrição', left + 14, y);
+  doc.text('Referência', 120, y, { align: 'right' });
+  doc.text('Vencimentos', 157, y, { align: 'right' });
+  doc.text('Descontos', right, y, { align: 'right' });
+  y += 2;
+  doc.line(left, y, right, y);
+
+  doc.setFont('helvetica', 'normal');
+  for (const line of payslip.lines) {
+    y += 6;
+    doc.text(line.code, left, y);
+    doc.text(line.description, left + 14, y);
+    doc.text(line.reference, 120, y, { align: 'right' });
+    if (line.earning > 0) doc.text(formatMoney(line.earning), 157, y, { align: 'right' });
+    if (line.deduction > 0) doc.text(formatMoney(line.deduction), right, y, { align: 'right' });
+  }
+
+  y += 4;
+  doc.line(left, y, right, y);
+  y += 6;
+  doc.setFont('helvetica', 'bold');
+  doc.text('Totais', left + 14, y);
+  doc.text(formatMoney(payslip.totalEarnings), 157, y, { align: 'right' });
+  doc.text(formatMoney(payslip.totalDeductions), right, y, { align: 'right' });
+  y += 7;
+  doc.text('Valor Líquido', left + 14, y);
+  doc.text(`R$ ${formatMoney(payslip.netPay)}`, right, y, { align: 'right' });
+
+  y += 4;
+  doc.line(left, y, right, y);
+  y += 6;
+  const bases: [string, number][] = [
+    ['Salário Base', payslip.baseSalary],
+    ['Base INSS', payslip.inssBase],
+    ['Base FGTS', payslip.fgtsBase],
+    ['FGTS do Mês', payslip.fgtsDeposit],
+    ['Base IRRF', payslip.irrfBase],
+  ];
+  const columnWidth = (right - left) / bases.length;
+  bases.forEach(([label, value], i) => {
+    const x = left + columnWidth * i;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.text(label.toUpperCase(), x, y);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.text(formatMoney(value), x, y + 5);
+  });
+
+  y += 20;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.text(`Tabelas INSS/IRRF: ${payslip.tableVersion}`, left, y);
+  doc.line(120, y, right, y);
+  doc.text('Assinatura do empregado', 157.5, y + 4, { align: 'center' });
+
+  return doc;
+}
@@ -0,0 +1,129 @@
+import { CalculatorInputs, defaultInputs, sanitizeInputs } from './inputs';
+
+// Links are `#s=<version>.<base64url JSON>`. Bump the version whenever a key
+// changes meaning or a field is added, and add a migration from the previous
+// one.
+export const PERMALINK_VERSION = 2;
+
+const HASH_PARAM = 's';
+
+// Short keys keep the links compact; never reuse a key for another field
+const KEYS: Record<keyof CalculatorInputs, string> = {
+  tab: 't',
+  competence: 'c',
+  grossSalary: 'g',
+  dependents: 'd',
+  deductions: 'dd',
+  bonuses: 'b',
+  hazard: 'hz',
+  monthlyHours: 'mh',
+  overtimeHours: 'oh',
+  overtimePercent: 'op',
+  nightHours: 'nh',
+  localHolidays: 'lh',
+  vacationDays: 'vd',
+  sellTenDays: 'st',
+  unusedVacationDays: 'uv',
+  variableAverage: 'va',
+  taxRegime: 'tr',
+  ratRate: 'rr',
+  fap: 'fp',
+  thirdPartiesRate: 'tp',
+  employerBenefits: 'eb',
+  pjRevenue: 'pr',
+  pjRegime: 'pg',
+  proLabore: 'pl',
+  accountantCost: 'ac',
+  terminationType: 'tt',
+  startDate: 'sd',
+  endDate: 'ed',
+  fgtsBalance: 'fb',
+  simulateFgtsBalance: 'sf',
+  salaryHistory: 'sh',
+  anniversaryWithdrawal: 'aw',
+  noticeWorked: 'nw',
+  takenVacationPeriods: 'tv',
+  periodAbsences: 'pa',
+  lastSalaries: 'ls',
+  monthsWorked: 'mw',
+  previousClaims: 'pc'
+};
+
+// Version 1 left out the fields equal to the defaults of the time, apart
+// from competence and endDate, so its links are read against those defaults
+// rather than the current ones
+const V1_DEFAULTS: Record<string, unknown> = {
+  t: 'salary', g: 3500, d: 0, dd: [], b: 0, hz: 'none', mh: 220, oh: 10, op: 50, nh: 0, lh: '',
+  vd: 30, st: false, uv: 0, va: 0, tr: 'lucro-presumido', rr: 2, fp: 1, tp: 5.8, eb: 0,
+  pr: 6000, pg: 'simples', pl: '', ac: 300, tt: 'sem-justa-causa', sd: '2023-01-01', fb: 5000,
+  sf: true, sh: [], aw: false, nw: false, tv: 0, pa: [], ls: ['', '', ''], mw: '', pc: 0
+};
+
+// Upgrades the payload of version N to version N + 1
+const MIGRATIONS: Record<number, (payload: Record<string, unknown>) => Record<string, unknown>> = {
+  1: (payload) => ({ ...V1_DEFAULTS, ...payload })
+};
+
+export type PermalinkResult =
+  | { status: 'empty' }
+  | { status: 'ok'; inputs: CalculatorInputs }
+  | { status: 'invalid' }
+  | { status: 'unsupported'; version: number };
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+// Every field is written, so a link never depends on the defaults of the
+// day it is opened
+export function encodePermalink(inputs: CalculatorInputs): string {
+  const payload: Record<string, unknown> = {};
+  for (const key of Object.keys(KEYS) as (keyof CalculatorInputs)[]) payload[KEYS[key]] = inputs[key];
+  return `${PERMALINK_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+}
+
+export function decodePermalink(value: string, defaults: CalculatorInputs = defaultInputs()): PermalinkResult {
+  const match = value.match(/^(\d+)\.([A-Za-z0-9_-]*)$/);
+  if (!match) return { status: 'invalid' };
+
+  let version = Number(match[1]);
+  if (version > PERMALINK_VERSION || version < 1) return { status: 'unsupported', version };
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(match[2]));
+  } catch {
+    return { status: 'invalid' };
+  }
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) return { status: 'invalid' };
+
+  let data = payload as Record<string, unknown>;
+  for (; version < PERMALINK_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return { status: 'unsupported', version };
+    data = migrate(data);
+  }
+
+  const raw: Record<string, unknown> = {};
+  for (const key of Object.keys(KEYS) as (keyof CalculatorInputs)[]) {
+    if (KEYS[key] in data) raw[key] = data[KEYS[key]];
+  }
+  return { status: 'ok', inputs: sanitizeInputs(raw, defaults) };
+}
+
+export function readPermalinkHash(hash: string, defaults: CalculatorInputs = defaultInputs()): PermalinkResult {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_PARAM);
+  return value ? decodePermalink(value, defaults) : { status: 'empty' };
+}
+
+export function buildPermalinkHash(inputs: CalculatorInputs): string {
+  return `#${HASH_PARAM}=${encodePermalink(inputs)}`;
+}
@@ -0,0 +1,119 @@
+import {
+  calculateHazardPay,
+  calculateSalary,
+  calculateVacation,
+  HazardType,
+  SalaryResult,
+  VacationResult
+} from './calculator';
+import { PayrollDeduction } from './deductions';
+import { calculateEmployerCost, EmployerCostOptions, EmployerCostResult } from './employerCost';
+import { fromCents, Money, sumMoney, toCents } from './money';
+
+export type ReverseTarget = 'net-salary' | 'employer-cost' | 'vacation-net';
+
+export const REVERSE_TARGET_LABELS: Record<ReverseTarget, string> = {
+  'net-salary': 'Salário líquido',
+  'employer-cost': 'Custo total para a empresa',
+  'vacation-net': 'Férias líquidas'
+};
+
+export interface ReverseSolution<T> {
+  // Monthly salary before bonuses and premiums, as typed in the salary field
+  salary: Money;
+  // What the calculation gives at that salary; differs from the target only
+  // when no salary reaches it to the centavo
+  achieved: Money;
+  exact: boolean;
+  result: T;
+}
+
+const MAX_SALARY_CENTS = 1e10;
+
+// Rounding every line item can make a centavo step in the salary lower the
+// net by a centavo (INSS and IRRF both rounding up), so the bisection answer
+// is checked against its neighbours
+const ROUNDING_WINDOW_CENTS = 10;
+
+// Lowest salary, in whole centavos, whose calculated value reaches the
+// target. The value grows with the salary apart from those centavo wobbles:
+// the combined INSS and IRRF marginal rate stays below 100%, and past the
+// INSS ceiling the contribution simply stops growing.
+function solve<T>(target: number, calculate: (salary: number) => T, valueOf: (result: T) => number): ReverseSolution<T> {
+  const targetCents = toCents(target);
+  const valueAt = (cents: number) => toCents(valueOf(calculate(fromCents(cents))));
+
+  let low = 0;
+  let high = Math.max(100, targetCents);
+  if (valueAt(low) >= targetCents) {
+    high = low;
+  } else {
+    while (valueAt(high) < targetCents && high < MAX_SALARY_CENTS) high = Math.min(high * 2, MAX_SALARY_CENTS);
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      if (valueAt(mid) >= targetCents) high = mid;
+      else low = mid;
+    }
+  }
+
+  let cents = high;
+  for (let candidate = Math.max(0, high - ROUNDING_WINDOW_CENTS); candidate <= high + ROUNDING_WINDOW_CENTS; candidate++) {
+    if (valueAt(candidate) === targetCents) {
+      cents = candidate;
+      break;
+    }
+  }
+
+  const salary = fromCents(cents);
+  const result = calculate(salary);
+  const achieved = fromCents(toCents(valueOf(result)));
+  return { salary, achieved, exact: toCents(achieved) === targetCents, result };
+}
+
+export function findSalaryForNet(
+  targetNet: number,
+  dependents: number = 0,
+  deductions: PayrollDeduction[] = [],
+  referenceDate: Date = new Date(),
+  bonuses: number = 0,
+  hazard: HazardType = 'none'
+): ReverseSolution<SalaryResult> {
+  return solve(
+    targetNet,
+    (salary) => calculateSalary(salary, dependents, deductions, referenceDate, bonuses, hazard),
+    (result) => result.netSalary
+  );
+}
+
+// The employer cost is taken over the gross pay, bonuses and premiums
+// included, as the employer cost tab does
+export function findSalaryForEmployerCost(
+  targetCost: number,
+  options: EmployerCostOptions = {},
+  bonuses: number = 0,
+  hazard: HazardType = 'none',
+  referenceDate: Date = new Date()
+): ReverseSolution<EmployerCostResult> {
+  return solve(
+    targetCost,
+    (salary) => calculateEmployerCost(sumMoney(salary, bonuses, calculateHazardPay(salary, hazard, referenceDate)), options),
+    (result) => result.monthlyTotal
+  );
+}
+
+export function findSalaryForVacationNet(
+  targetNet: number,
+  days: number = 30,
+  sellTenDays: boolean = false,
+  dependents: number = 0,
+  unusedVacationDays: number = 0,
+  bonuses: number = 0,
+  referenceDate: Date = new Date(),
+  hazard: HazardType = 'none'
+): ReverseSolution<VacationResult> {
+  return solve(
+    targetNet,
+    (salary) => calculateVacation(salary, days, sellTenDays, dependents, unusedVacationDays, bonuses, referenceDate, hazard),
+    (result) => result.netTotal
+  );
+}
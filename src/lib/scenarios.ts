@@ -0,0 +1,63 @@
+import { CalculatorInputs, sanitizeInputs, Tab } from './inputs';
+
+export interface ScenarioSummary {
+  id: number;
+  name: string;
+  employee: string;
+  tab: Tab;
+  tableVersion: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The result is stored as computed when the scenario was saved, so it still
+// shows what was communicated even after the tax tables change
+export interface Scenario extends ScenarioSummary {
+  inputs: CalculatorInputs;
+  result: unknown;
+}
+
+export interface ScenarioDraft {
+  name: string;
+  employee: string;
+  inputs: CalculatorInputs;
+  result: unknown;
+  tableVersion: string;
+}
+
+export class ScenarioValidationError extends Error {}
+
+const MAX_NAME_LENGTH = 120;
+
+function requireText(value: unknown, field: string, required: boolean): string {
+  if (value === undefined && !required) return '';
+  if (typeof value !== 'string') throw new ScenarioValidationError(`${field} deve ser um texto`);
+  const text = value.trim();
+  if (required && !text) throw new ScenarioValidationError(`${field} é obrigatório`);
+  if (text.length > MAX_NAME_LENGTH) throw new ScenarioValidationError(`${field} deve ter até ${MAX_NAME_LENGTH} caracteres`);
+  return text;
+}
+
+export function parseScenarioDraft(body: unknown): ScenarioDraft {
+  if (typeof body !== 'object' || body === null) throw new ScenarioValidationError('Corpo da requisição inválido');
+  const data = body as Record<string, unknown>;
+  if (typeof data.inputs !== 'object' || data.inputs === null) throw new ScenarioValidationError('inputs é obrigatório');
+
+  return {
+    name: requireText(data.name, 'name', true),
+    employee: requireText(data.employee, 'employee', false),
+    inputs: sanitizeInputs(data.inputs),
+    result: data.result ?? null,
+    tableVersion: requireText(data.tableVersion, 'tableVersion', true)
+  };
+}
+
+// Partial update used to rename a scenario or move it to another employee
+export function parseScenarioPatch(body: unknown): Partial<Pick<ScenarioDraft, 'name' | 'employee'>> {
+  if (typeof body !== 'object' || body === null) throw new ScenarioValidationError('Corpo da requisição inválido');
+  const data = body as Record<string, unknown>;
+  const patch: Partial<Pick<ScenarioDraft, 'name' | 'employee'>> = {};
+  if (data.name !== undefined) patch.name = requireText(data.name, 'name', true);
+  if (data.employee !== undefined) patch.employee = requireText(data.employee, 'employee', false);
+  return patch;
+}
@@ -0,0 +1,36 @@
+import { Scenario, ScenarioDraft, ScenarioSummary } from './scenarios';
+
+const BASE_URL = '/api/scenarios';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Erro ${response.status} ao acessar os cenários`);
+  }
+  return (response.status === 204 ? undefined : await response.json()) as T;
+}
+
+export function listScenarios(employee?: string): Promise<ScenarioSummary[]> {
+  const query = employee ? `?employee=${encodeURIComponent(employee)}` : '';
+  return request(`${BASE_URL}${query}`);
+}
+
+export function getScenario(id: number): Promise<Scenario> {
+  return request(`${BASE_URL}/${id}`);
+}
+
+export function saveScenario(draft: ScenarioDraft): Promise<Scenario> {
+  return request(BASE_URL, { method: 'POST', body: JSON.stringify(draft) });
+}
+
+export function duplicateScenario(id: number): Promise<Scenario> {
+  return request(`${BASE_URL}/${id}/duplicate`, { method: 'POST' });
+}
+
+export function deleteScenario(id: number): Promise<void> {
+  return request(`${BASE_URL}/${id}`, { method: 'DELETE' });
+}
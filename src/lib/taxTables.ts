@@ -0,0 +1,200 @@
+export interface InssBracket {
+  upTo: number;
+  rate: number;
+}
+
+export interface IrrfBracket {
+  upTo: number;
+  rate: number;
+  deduction: number;
+}
+
+// Lei 15.270/2025: monthly reduction that zeroes the tax up to `exemptUpTo`
+// and phases out linearly until `phaseOutUpTo`.
+export interface IrrfReduction {
+  exemptUpTo: number;
+  maxReduction: number;
+  phaseOutUpTo: number;
+  constant: number;
+  factor: number;
+}
+
+export interface TaxTable {
+  version: string;
+  label: string;
+  validFrom: string; // Competence month, YYYY-MM
+  minimumWage: number;
+  inss: InssBracket[];
+  irrf: IrrfBracket[];
+  dependentDeduction: number;
+  simplifiedDiscount: number; // 0 while the option did not exist
+  irrfReduction?: IrrfReduction;
+}
+
+const INSS_2023_01: InssBracket[] = [
+  { upTo: 1302.00, rate: 0.075 },
+  { upTo: 2571.29, rate: 0.09 },
+  { upTo: 3856.94, rate: 0.12 },
+  { upTo: 7507.49, rate: 0.14 },
+];
+
+const INSS_2023_05: InssBracket[] = [
+  { upTo: 1320.00, rate: 0.075 },
+  { upTo: 2571.29, rate: 0.09 },
+  { upTo: 3856.94, rate: 0.12 },
+  { upTo: 7507.49, rate: 0.14 },
+];
+
+const INSS_2024: InssBracket[] = [
+  { upTo: 1412.00, rate: 0.075 },
+  { upTo: 2666.68, rate: 0.09 },
+  { upTo: 4000.03, rate: 0.12 },
+  { upTo: 7786.02, rate: 0.14 },
+];
+
+const INSS_2025: InssBracket[] = [
+  { upTo: 1518.00, rate: 0.075 },
+  { upTo: 2793.88, rate: 0.09 },
+  { upTo: 4190.83, rate: 0.12 },
+  { upTo: 8157.41, rate: 0.14 },
+];
+
+const INSS_2026: InssBracket[] = [
+  { upTo: 1621.00, rate: 0.075 },
+  { upTo: 2902.84, rate: 0.09 },
+  { upTo: 4354.27, rate: 0.12 },
+  { upTo: 8475.55, rate: 0.14 },
+];
+
+const IRRF_2015: IrrfBracket[] = [
+  { upTo: 1903.98, rate: 0, deduction: 0 },
+  { upTo: 2826.65, rate: 0.075, deduction: 142.80 },
+  { upTo: 3751.05, rate: 0.15, deduction: 354.80 },
+  { upTo: 4664.68, rate: 0.225, deduction: 636.13 },
+  { upTo: Infinity, rate: 0.275, deduction: 869.36 },
+];
+
+const IRRF_2023_05: IrrfBracket[] = [
+  { upTo: 2112.00, rate: 0, deduction: 0 },
+  { upTo: 2826.65, rate: 0.075, deduction: 158.40 },
+  { upTo: 3751.05, rate: 0.15, deduction: 370.40 },
+  { upTo: 4664.68, rate: 0.225, deduction: 651.73 },
+  { upTo: Infinity, rate: 0.275, deduction: 884.96 },
+];
+
+const IRRF_2024_02: IrrfBracket[] = [
+  { upTo: 2259.20, rate: 0, deduction: 0 },
+  { upTo: 2826.65, rate: 0.075, deduction: 169.44 },
+  { upTo: 3751.05, rate: 0.15, deduction: 381.44 },
+  { upTo: 4664.68, rate: 0.225, deduction: 662.77 },
+  { upTo: Infinity, rate: 0.275, deduction: 896.00 },
+];
+
+const IRRF_2025_05: IrrfBracket[] = [
+  { upTo: 2428.80, rate: 0, deduction: 0 },
+  { upTo: 2826.65, rate: 0.075, deduction: 182.16 },
+  { upTo: 3751.05, rate: 0.15, deduction: 394.16 },
+  { upTo: 4664.68, rate: 0.225, deduction: 675.49 },
+  { upTo: Infinity, rate: 0.275, deduction: 908.73 },
+];
+
+// Ordered by validFrom. Each entry is a full snapshot of the rules in force
+// from that competence month until the next entry.
+export const TAX_TABLES: TaxTable[] = [
+  {
+    version: '2023-01',
+    label: 'Jan/2023',
+    validFrom: '2023-01',
+    minimumWage: 1302,
+    inss: INSS_2023_01,
+    irrf: IRRF_2015,
+    dependentDeduction: 189.59,
+    simplifiedDiscount: 0,
+  },
+  {
+    version: '2023-05',
+    label: 'Mai/2023',
+    validFrom: '2023-05',
+    minimumWage: 1320,
+    inss: INSS_2023_05,
+    irrf: IRRF_2023_05,
+    dependentDeduction: 189.59,
+    simplifiedDiscount: 528.00,
+  },
+  {
+    version: '2024-01',
+    label: 'Jan/2024',
+    validFrom: '2024-01',
+    minimumWage: 1412,
+    inss: INSS_2024,
+    irrf: IRRF_2023_05,
+    dependentDeduction: 189.59,
+    simplifiedDiscount: 528.00,
+  },
+  {
+    version: '2024-02',
+    label: 'Fev/2024',
+    validFrom: '2024-02',
+    minimumWage: 1412,
+    inss: INSS_2024,
+    irrf: IRRF_2024_02,
+    dependentDeduction: 189.59,
+    simplifiedDiscount: 564.80,
+  },
+  {
+    version: '2025-01',
+    label: 'Jan/2025',
+    validFrom: '2025-01',
+    minimumWage: 1518,
+    inss: INSS_2025,
+    irrf: IRRF_2024_02,
+    dependentDeduction: 189.59,
+    simplifiedDiscount: 564.80,
+  },
+  {
+    version: '2025-05',
+    label: 'Mai/2025',
+    validFrom: '2025-05',
+    minimumWage: 1518,
+    inss: INSS_2025,
+    irrf: IRRF_2025_05,
+    dependentDeduction: 189.59,
+    simplifiedDiscount: 607.20,
+  },
+  {
+    version: '2026-01',
+    label: 'Jan/2026',
+    validFrom: '2026-01',
+    minimumWage: 1621,
+    inss: INSS_2026,
+    irrf: IRRF_2025_05,
+    dependentDeduction: 189.59,
+    simplifiedDiscount: 607.20,
+    irrfReduction: {
+      exemptUpTo: 5000,
+      maxReduction: 312.89,
+      phaseOutUpTo: 7350,
+      constant: 978.62,
+      factor: 0.133145,
+    },
+  },
+];
+
+export function toCompetence(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  return `${date.getFullYear()}-${month}`;
+}
+
+// Dates before the first entry fall back to the oldest table we have.
+export function getTaxTable(referenceDate: Date = new Date()): TaxTable {
+  const competence = toCompetence(referenceDate);
+  let table = TAX_TABLES[0];
+  for (const candidate of TAX_TABLES) {
+    if (candidate.validFrom <= competence) table = candidate;
+  }
+  return table;
+}
+
+export function getInssCeiling(table: TaxTable): number {
+  return table.inss[table.inss.length - 1].upTo;
+}
@@ -0,0 +1,283 @@
+import { addDays, format } from 'date-fns';
+import { jsPDF } from 'jspdf';
+import { TerminationResult, TerminationType } from './calculator';
+import { CustomHoliday, previousBusinessDay } from './calendar';
+import { Money, subtractMoney, sumMoney, ZERO } from './money';
+import { DocumentHeader, EMPTY_DOCUMENT_HEADER } from './payslip';
+import { brl, CalculationTrace, formatTraceValue, percent } from './trace';
+import { formatMoney } from './utils';
+
+export interface TerminationReportLine {
+  code: string; // TRCT field number
+  description: string;
+  legalReference: string;
+  amount: Money;
+}
+
+export interface TerminationReport {
+  generatedAt: string;
+  header: DocumentHeader;
+  contract: {
+    admissionDate: string;
+    noticeDate: string;
+    endDate: string;
+    projectedEndDate: string;
+    type: TerminationType;
+    causeCode: string;
+    causeDescription: string;
+    noticeDays: number;
+    noticeWorked: boolean;
+    baseSalary: Money;
+  };
+  earnings: TerminationReportLine[];
+  deductions: TerminationReportLine[];
+  totalEarnings: Money;
+  totalDeductions: Money;
+  netPayable: Money;
+  bases: {
+    inss: Money;
+    irrf: Money;
+  };
+  fgts: {
+    deposit: Money;
+    fine: Money;
+    fineRate: number;
+  };
+  paymentDeadline: string;
+  tableVersion: string;
+  trace: CalculationTrace;
+}
+
+export interface TerminationReportOptions {
+  admissionDate: Date;
+  endDate: Date;
+  type: TerminationType;
+  noticeWorked?: boolean;
+  header?: DocumentHeader;
+  customHolidays?: CustomHoliday[];
+  generatedAt?: Date;
+}
+
+// Motivo do desligamento, eSocial table 19
+const TERMINATION_CAUSES: Record<TerminationType, [string, string]> = {
+  'sem-justa-causa': ['02', 'Rescisão sem justa causa, por iniciativa do empregador'],
+  'com-justa-causa': ['01', 'Rescisão com justa causa, por iniciativa do empregador'],
+  'pedido-demissao': ['07', 'Rescisão a pedido do empregado'],
+  'comum-acordo': ['33', 'Rescisão por acordo entre as partes (art. 484-A da CLT)']
+};
+
+const toIsoDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export function buildTerminationReport(result: TerminationResult, options: TerminationReportOptions): TerminationReport {
+  const { admissionDate, endDate, type, noticeWorked = false, header = EMPTY_DOCUMENT_HEADER, customHolidays = [], generatedAt = new Date() } = options;
+  const [causeCode, causeDescription] = TERMINATION_CAUSES[type];
+
+  // Worked notice runs for 30 days up to the end date (Súmula 380 TST)
+  const hasWorkedNotice = noticeWorked && type !== 'com-justa-causa' && result.noticeDays > 0;
+  const noticeDate = hasWorkedNotice ? addDays(endDate, -30) : endDate;
+
+  const earnings: TerminationReportLine[] = [
+    { code: '50', description: `Saldo de ${endDate.getDate()} dias de salário`, legalReference: 'CLT, art. 459', amount: result.salaryBalance },
+    { code: '63', description: '13º salário proporcional', legalReference: 'Lei 4.090/62, art. 3º', amount: result.proportionalThirteenth },
+    { code: '66', description: 'Férias vencidas', legalReference: 'CLT, arts. 137 e 146', amount: result.expiredVacation },
+    { code: '65', description: 'Férias proporcionais', legalReference: 'CLT, art. 146, parágrafo único', amount: result.proportionalVacation },
+    { code: '68', description: 'Terço constitucional de férias', legalReference: 'CF, art. 7º, XVII', amount: result.vacationOneThird },
+    { code: '69', description: `Aviso prévio indenizado (${result.noticeDays} dias)`, legalReference: 'CLT, art. 487, § 1º; Lei 12.506/2011', amount: result.noticePeriod ?? ZERO },
+  ].filter((line) => line.amount > 0);
+
+  const deductions: TerminationReportLine[] = [
+    { code: '103', description: 'Aviso prévio não cumprido', legalReference: 'CLT, art. 487, § 2º', amount: result.noticeDeduction },
+    { code: '112.1', description: 'Previdência Social', legalReference: 'Lei 8.212/91, art. 28', amount: result.inss },
+    { code: '114.1', description: 'IRRF', legalReference: 'Lei 7.713/88, art. 7º', amount: result.irrf },
+  ].filter((line) => line.amount > 0);
+
+  const totalEarnings = sumMoney(...earnings.map((line) => line.amount));
+  const totalDeductions = sumMoney(...deductions.map((line) => line.amount));
+  const inssBase = sumMoney(result.salaryBalance, result.proportionalThirteenth);
+
+  // Art. 477, § 6º: ten days from the end of the contract, brought forward
+  // when the last day is not a business day
+  const paymentDeadline = previousBusinessDay(addDays(endDate, 10), customHolidays);
+
+  return {
+    generatedAt: generatedAt.toISOString(),
+    header,
+    contract: {
+      admissionDate: toIsoDate(admissionDate),
+      noticeDate: toIsoDate(noticeDate),
+      endDate: toIsoDate(endDate),
+      projectedEndDate: toIsoDate(result.projectedEndDate),
+      type,
+      causeCode,
+      causeDescription,
+      noticeDays: result.noticeDays,
+      noticeWorked: hasWorkedNotice,
+      baseSalary: result.baseSalary
+    },
+    earnings,
+    deductions,
+    totalEarnings,
+    totalDeductions,
+    netPayable: subtractMoney(totalEarnings, totalDeductions),
+    bases: {
+      inss: inssBase,
+      irrf: result.trace.irrf?.base ?? inssBase
+    },
+    fgts: {
+      deposit: result.fgtsDeposit,
+      fine: result.fgtsFine ?? ZERO,
+      fineRate: type === 'sem-justa-causa' ? 0.4 : type === 'comum-acordo' ? 0.2 : 0
+    },
+    paymentDeadline: toIsoDate(paymentDeadline),
+    tableVersion: result.tableVersion,
+    trace: result.trace
+  };
+}
+
+export function formatReportDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-');
+  return `${day}/${month}/${year}`;
+}
+
+// A4 portrait, in millimetres
+export function renderTerminationReportPdf(report: TerminationReport): jsPDF {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const left = 15;
+  const right = 195;
+  let y = 18;
+
+  const section = (title: string) => {
+    y += 8;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(9);
+    doc.text(title.toUpperCase(), left, y);
+    y += 2;
+    doc.line(left, y, right, y);
+    doc.setFont('helvetica', 'normal');
+  };
+
+  const row = (label: string, value: string, reference?: string) => {
+    y += 6;
+    doc.text(label, left, y);
+    if (reference) doc.text(reference, 140, y, { align: 'right' });
+    doc.text(value, right, y, { align: 'right' });
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.text('Termo de Rescisão do Contrato de Trabalho', left, y);
+  y += 8;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`Empregador: ${report.header.employerName || '-'}`, left, y);
+  doc.text(`CNPJ/CPF: ${report.header.employerDocument || '-'}`, right, y, { align: 'right' });
+  y += 5;
+  doc.text(`Empregado: ${report.header.employeeName || '-'}`, left, y);
+  doc.text(`Cargo: ${report.header.employeeRole || '-'}`, right, y, { align: 'right' });
+
+  section('Dados do contrato');
+  row('Data de admissão', formatReportDate(report.contract.admissionDate));
+  row('Data do aviso prévio', formatReportDate(report.contract.noticeDate));
+  row('Data de afastamento', formatReportDate(report.contract.endDate));
+  row('Data projetada (aviso indenizado)', formatReportDate(report.contract.projectedEndDate));
+  row(`Causa do afastamento (${report.contract.causeCode})`, report.contract.causeDescription);
+  row('Remuneração para fins rescisórios', formatMoney(report.contract.baseSalary));
+
+  section('Verbas rescisórias');
+  for (const line of report.earnings) {
+    row(`${line.code}  ${line.description}`, formatMoney(line.amount), line.legalReference);
+  }
+  doc.setFont('helvetica', 'bold');
+  row('Total bruto', formatMoney(report.totalEarnings));
+  doc.setFont('helvetica', 'normal');
+
+  section('Deduções');
+  for (const line of report.deductions) {
+    row(`${line.code}  ${line.description}`, formatMoney(line.amount), line.legalReference);
+  }
+  doc.setFont('helvetica', 'bold');
+  row('Total de deduções', formatMoney(report.totalDeductions));
+  row('Valor líquido', `R$ ${formatMoney(report.netPayable)}`);
+  doc.setFont('helvetica', 'normal');
+
+  section('Bases e FGTS');
+  row('Base de cálculo INSS', formatMoney(report.bases.inss));
+  row('Base de cálculo IRRF', formatMoney(report.bases.irrf));
+  row('FGTS do mês da rescisão', formatMoney(report.fgts.deposit));
+  if (report.fgts.fine > 0) {
+    row(`Multa do FGTS (${report.fgts.fineRate * 100}%)`, formatMoney(report.fgts.fine), 'Lei 8.036/90, art. 18');
+  }
+
+  y += 10;
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Prazo para pagamento: ${formatReportDate(report.paymentDeadline)} (CLT, art. 477, § 6º)`, left, y);
+
+  y += 20;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.line(left, y, 90, y);
+  doc.line(120, y, right, y);
+  doc.text('Assinatura do empregador', 52.5, y + 4, { align: 'center' });
+  doc.text('Assinatura do empregado', 157.5, y + 4, { align: 'center' });
+  doc.text(`Tabelas INSS/IRRF: ${report.tableVersion} · Gerado em ${new Date(report.generatedAt).toLocaleString('pt-BR')}`, left, y + 12);
+
+  // The memória de cálculo goes on its own page, after the signatures
+  doc.addPage();
+  y = 18;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.text('Memória de Cálculo', left, y);
+  doc.setFontSize(9);
+
+  const nextLine = (height: number) => {
+    y += height;
+    if (y > 280) {
+      doc.addPage();
+      y = 18;
+    }
+  };
+
+  section('Verbas e descontos');
+  for (const item of report.trace.steps) {
+    nextLine(6);
+    doc.text(item.label, left, y);
+    doc.text(formatTraceValue(item), right, y, { align: 'right' });
+    if (item.formula) {
+      doc.setFontSize(7);
+      // The standard PDF fonts have no U+2212 minus sign
+      for (const line of doc.splitTextToSize(item.formula.replace(/\u2212/g, '-'), 140) as string[]) {
+        nextLine(3.5);
+        doc.text(line, left + 4, y);
+      }
+      doc.setFontSize(9);
+    }
+  }
+
+  const { inss, irrf } = report.trace;
+  if (inss && inss.brackets.length > 0) {
+    section(`INSS por faixa sobre ${brl(inss.salary)}`);
+    for (const bracket of inss.brackets) {
+      nextLine(6);
+      doc.text(`${brl(bracket.from)} a ${brl(bracket.upTo)}`, left, y);
+      doc.text(`${percent(bracket.rate)} × ${brl(bracket.base)}`, 140, y, { align: 'right' });
+      doc.text(formatMoney(bracket.amount), right, y, { align: 'right' });
+    }
+    doc.setFont('helvetica', 'bold');
+    row('INSS (arredondado uma vez sobre a soma das faixas)', formatMoney(inss.inss));
+    doc.setFont('helvetica', 'normal');
+  }
+
+  if (irrf) {
+    section(`IRRF · ${irrf.method === 'simplified' ? 'desconto simplificado' : 'deduções legais'}`);
+    row('Rendimento tributável', formatMoney(irrf.income));
+    row('Deduções', formatMoney(irrf.deductions));
+    row('Base de cálculo', formatMoney(irrf.base));
+    row(`Alíquota de ${percent(irrf.rate)}, parcela a deduzir`, formatMoney(irrf.parcelaDeduzir));
+    if (irrf.reduction > 0) row('Redução da Lei 15.270/2025', formatMoney(irrf.reduction));
+    doc.setFont('helvetica', 'bold');
+    row('IRRF', formatMoney(irrf.irrf));
+    doc.setFont('helvetica', 'normal');
+  }
+
+  return doc;
+}
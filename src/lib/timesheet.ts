@@ -0,0 +1,213 @@
+import { differenceInCalendarDays, getISOWeek, getISOWeekYear } from 'date-fns';
+
+export interface TimesheetDay {
+  date: Date;
+  punches: string[];
+  workedHours: number;
+  nightHours: number;
+  overtime50: number;
+  overtime100: number;
+  restDay: boolean;
+  issues: string[];
+}
+
+export interface TimesheetError {
+  line: number;
+  message: string;
+}
+
+export interface TimesheetSummary {
+  days: TimesheetDay[];
+  errors: TimesheetError[];
+  dailyHours: number;
+  weeklyHours: number;
+  workedHours: number;
+  nightHours: number;
+  overtime50: number;
+  overtime100: number;
+}
+
+export interface TimesheetOptions {
+  isRestDay?: (date: Date) => boolean;
+  // Contracted daily hours, for schedules that are not spread over five
+  // days, such as 6h a day over six days
+  dailyHours?: number;
+}
+
+interface PunchRow {
+  line: number;
+  date: Date;
+  punches: string[];
+  minutes: number[];
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const NIGHT_START = 22 * 60;
+const NIGHT_END = 5 * 60;
+
+function parseDate(value: string): Date | null {
+  let match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  match = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (match) return new Date(Number(match[3]), Number(match[2]) - 1, Number(match[1]));
+  return null;
+}
+
+function parseTime(value: string): number | null {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+// Accepts `date,in,out,in,out...` lines, comma or semicolon separated, with
+// ISO (2025-03-03) or Brazilian (03/03/2025) dates. A header line is skipped.
+export function parseTimesheetCsv(text: string): { rows: PunchRow[]; errors: TimesheetError[] } {
+  const rows: PunchRow[] = [];
+  const errors: TimesheetError[] = [];
+  const lines = text.split(/\r?\n/);
+
+  lines.forEach((raw, i) => {
+    const line = i + 1;
+    if (!raw.trim()) return;
+    const cells = raw.split(raw.includes(';') ? ';' : ',').map((cell) => cell.trim());
+    const date = parseDate(cells[0]);
+    if (!date) {
+      if (line > 1) errors.push({ line, message: `Data inválida: "${cells[0]}"` });
+      return;
+    }
+
+    const punches = cells.slice(1).filter(Boolean);
+    const minutes: number[] = [];
+    let offset = 0;
+    for (const punch of punches) {
+      const parsed = parseTime(punch);
+      if (parsed === null) {
+        errors.push({ line, message: `Horário inválido: "${punch}"` });
+        return;
+      }
+      // A punch earlier than the previous one crossed midnight
+      if (minutes.length > 0 && parsed + offset < minutes[minutes.length - 1]) offset += MINUTES_PER_DAY;
+      minutes.push(parsed + offset);
+    }
+    rows.push({ line, date, punches, minutes });
+  });
+
+  rows.sort((a, b) => a.date.getTime() - b.date.getTime());
+  return { rows, errors };
+}
+
+function overlap(start: number, end: number, windowStart: number, windowEnd: number): number {
+  return Math.max(0, Math.min(end, windowEnd) - Math.max(start, windowStart));
+}
+
+function nightMinutes(start: number, end: number): number {
+  let total = overlap(start, end, 0, NIGHT_END);
+  for (let day = 0; day * MINUTES_PER_DAY < end; day++) {
+    const offset = day * MINUTES_PER_DAY;
+    total += overlap(start, end, offset + NIGHT_START, offset + MINUTES_PER_DAY + NIGHT_END);
+  }
+  return total;
+}
+
+// Standard CLT schedules: monthly hours are five times the weekly workload,
+// spread over five working days. The normal day never goes past 8h (art. 58),
+// so a 44h week is 8h a day with the rest on Saturday.
+export function deriveWorkload(monthlyHours: number): { weeklyHours: number; dailyHours: number } {
+  const weeklyHours = Math.min(44, monthlyHours / 5);
+  return { weeklyHours, dailyHours: Math.min(8, weeklyHours / 5) };
+}
+
+export function analyzeTimesheet(
+  text: string,
+  monthlyHours: number,
+  options: TimesheetOptions = {}
+): TimesheetSummary {
+  const { isRestDay = (date: Date) => date.getDay() === 0 } = options;
+  const { rows, errors } = parseTimesheetCsv(text);
+  const workload = deriveWorkload(monthlyHours);
+  const { weeklyHours } = workload;
+  const dailyHours = options.dailyHours ?? workload.dailyHours;
+  const days: TimesheetDay[] = [];
+  const weeklyRegular = new Map<string, number>();
+  let previousEnd: { date: Date; minutes: number } | null = null;
+
+  for (const row of rows) {
+    const issues: string[] = [];
+    const { minutes } = row;
+    if (minutes.length % 2 !== 0) issues.push('Número ímpar de marcações');
+
+    let workedMinutes = 0;
+    let night = 0;
+    let shortBreak = false;
+    for (let i = 0; i + 1 < minutes.length; i += 2) {
+      workedMinutes += minutes[i + 1] - minutes[i];
+      night += nightMinutes(minutes[i], minutes[i + 1]);
+      if (i + 2 < minutes.length && minutes[i + 2] - minutes[i + 1] < 60) shortBreak = true;
+    }
+
+    const workedHours = workedMinutes / 60;
+    if (workedHours > 6 && (minutes.length < 4 || shortBreak)) {
+      issues.push('Intervalo intrajornada inferior a 1h (art. 71)');
+    }
+
+    if (previousEnd && minutes.length > 0) {
+      const gap = differenceInCalendarDays(row.date, previousEnd.date) * MINUTES_PER_DAY + minutes[0] - previousEnd.minutes;
+      if (gap < 11 * 60) issues.push('Interjornada inferior a 11h (art. 66)');
+    }
+    if (minutes.length > 1) previousEnd = { date: row.date, minutes: minutes[minutes.length - 1] };
+
+    const restDay = isRestDay(row.date);
+    let overtime50 = 0;
+    let overtime100 = 0;
+    if (restDay) {
+      overtime100 = workedHours;
+    } else {
+      overtime50 = Math.max(0, workedHours - dailyHours);
+      if (overtime50 > 2) issues.push('Mais de 2h extras no dia (art. 59)');
+
+      // Hours within the daily limit still become overtime once the week's
+      // contracted workload is exceeded
+      const week = `${getISOWeekYear(row.date)}-${getISOWeek(row.date)}`;
+      const regular = workedHours - overtime50;
+      const accumulated = (weeklyRegular.get(week) ?? 0) + regular;
+      const weeklyExcess = Math.min(regular, Math.max(0, accumulated - weeklyHours));
+      weeklyRegular.set(week, accumulated);
+      overtime50 += weeklyExcess;
+    }
+
+    days.push({
+      date: row.date,
+      punches: row.punches,
+      workedHours,
+      nightHours: night / 60,
+      overtime50,
+      overtime100,
+      restDay,
+      issues
+    });
+  }
+
+  // Flag repeated dates as well
+  days.forEach((day, i) => {
+    if (i > 0 && differenceInCalendarDays(day.date, days[i - 1].date) === 0) {
+      day.issues.push('Data repetida');
+    }
+  });
+
+  const sum = (key: 'workedHours' | 'nightHours' | 'overtime50' | 'overtime100') =>
+    days.reduce((total, day) => total + day[key], 0);
+
+  return {
+    days,
+    errors,
+    dailyHours,
+    weeklyHours,
+    workedHours: sum('workedHours'),
+    nightHours: sum('nightHours'),
+    overtime50: sum('overtime50'),
+    overtime100: sum('overtime100')
+  };
+}
@@ -0,0 +1,41 @@
+import type { InssDetails, IrrfResult } from './calculator';
+
+export type TraceUnit = 'money' | 'days' | 'hours' | 'avos' | 'factor';
+
+// One line of the memória de cálculo: what was computed, how, and the result
+export interface TraceStep {
+  label: string;
+  formula?: string;
+  value: number;
+  unit: TraceUnit;
+}
+
+export interface CalculationTrace {
+  steps: TraceStep[];
+  inss?: InssDetails;
+  irrf?: IrrfResult;
+}
+
+// Traces are built on every calculation, including the solvers' iterations,
+// so the formatters are created once
+const MONEY_FORMAT = new Intl.NumberFormat('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const PERCENT_FORMAT = new Intl.NumberFormat('pt-BR', { maximumFractionDigits: 2 });
+const DECIMAL_FORMAT = new Intl.NumberFormat('pt-BR', { maximumFractionDigits: 4 });
+
+export const brl = (value: number) => `R$ ${MONEY_FORMAT.format(value)}`;
+export const percent = (rate: number) => `${PERCENT_FORMAT.format(rate * 100)}%`;
+export const decimal = (value: number) => DECIMAL_FORMAT.format(value);
+
+export function step(label: string, value: number, formula?: string, unit: TraceUnit = 'money'): TraceStep {
+  return formula ? { label, formula, value, unit } : { label, value, unit };
+}
+
+export function formatTraceValue({ value, unit }: Pick<TraceStep, 'value' | 'unit'>): string {
+  switch (unit) {
+    case 'money': return brl(value);
+    case 'days': return `${decimal(value)} dia${value === 1 ? '' : 's'}`;
+    case 'hours': return `${decimal(value)}h`;
+    case 'avos': return `${value}/12`;
+    default: return decimal(value);
+  }
+}
@@ -0,0 +1,132 @@
+import { TerminationType } from './calculator';
+import { Money, money, multiplyMoney, ZERO } from './money';
+import { getTaxTable, toCompetence } from './taxTables';
+import { brl, CalculationTrace, step, TraceStep } from './trace';
+
+// Benefit brackets over the average salary: up to `firstUpTo` pays 80%; up to
+// `secondUpTo` pays `secondBase` plus 50% of the excess; above it, `ceiling`
+export interface UnemploymentTable {
+  version: string;
+  validFrom: string; // YYYY-MM
+  firstUpTo: number;
+  secondUpTo: number;
+  secondBase: number;
+  ceiling: number;
+}
+
+export interface UnemploymentInsuranceResult {
+  eligible: boolean;
+  reason?: string;
+  claim: number;
+  requiredMonths: number;
+  averageSalary: Money;
+  installments: number;
+  installmentValue: Money;
+  total: Money;
+  tableVersion: string;
+  trace: CalculationTrace;
+}
+
+// CODEFAT resolutions, updated every January by the INPC
+export const UNEMPLOYMENT_TABLES: UnemploymentTable[] = [
+  { version: '2023-01', validFrom: '2023-01', firstUpTo: 1968.36, secondUpTo: 3280.93, secondBase: 1574.69, ceiling: 2230.97 },
+  { version: '2024-01', validFrom: '2024-01', firstUpTo: 2041.39, secondUpTo: 3402.65, secondBase: 1633.10, ceiling: 2313.74 },
+  { version: '2025-01', validFrom: '2025-01', firstUpTo: 2138.76, secondUpTo: 3564.96, secondBase: 1711.01, ceiling: 2424.11 },
+  { version: '2026-01', validFrom: '2026-01', firstUpTo: 2222.17, secondUpTo: 3703.99, secondBase: 1777.74, ceiling: 2518.65 },
+];
+
+// Lei 7.998/90, art. 3º: months worked required for the 1st, 2nd and 3rd+ claim
+const REQUIRED_MONTHS = [12, 9, 6];
+
+export function getUnemploymentTable(referenceDate: Date = new Date()): UnemploymentTable {
+  const competence = toCompetence(referenceDate);
+  let table = UNEMPLOYMENT_TABLES[0];
+  for (const candidate of UNEMPLOYMENT_TABLES) {
+    if (candidate.validFrom <= competence) table = candidate;
+  }
+  return table;
+}
+
+// Art. 4º, § 2º: 3 to 5 installments by months worked in the last 36 months
+function countInstallments(monthsWorked: number): number {
+  if (monthsWorked >= 24) return 5;
+  if (monthsWorked >= 12) return 4;
+  return 3;
+}
+
+export function calculateUnemploymentInsurance(
+  lastSalaries: number[],
+  monthsWorked: number,
+  previousClaims: number = 0,
+  type: TerminationType = 'sem-justa-causa',
+  dismissalDate: Date = new Date()
+): UnemploymentInsuranceResult {
+  const table = getUnemploymentTable(dismissalDate);
+  const claim = Math.min(3, previousClaims + 1);
+  const requiredMonths = REQUIRED_MONTHS[claim - 1];
+  const salaries = lastSalaries.slice(-3).filter((salary) => salary > 0);
+  const averageSalary = salaries.length > 0 ? money(salaries.reduce((a, b) => a + b, 0) / salaries.length) : ZERO;
+  const steps: TraceStep[] = [
+    step('Salário médio', averageSalary, salaries.length > 0 ? `(${salaries.map(brl).join(' + ')}) ÷ ${salaries.length}` : undefined),
+    step('Meses trabalhados', monthsWorked, `mínimo de ${requiredMonths} para a ${claim}ª solicitação`, 'factor')
+  ];
+
+  const ineligible = (reason: string): UnemploymentInsuranceResult => ({
+    eligible: false,
+    reason,
+    claim,
+    requiredMonths,
+    averageSalary,
+    installments: 0,
+    installmentValue: ZERO,
+    total: ZERO,
+    tableVersion: table.version,
+    trace: { steps }
+  });
+
+  // Only involuntary dismissal gives the right; comum acordo is excluded by
+  // art. 484-A, § 2º of the CLT
+  if (type === 'comum-acordo') return ineligible('A rescisão por comum acordo não dá direito ao seguro-desemprego');
+  if (type !== 'sem-justa-causa') return ineligible('Apenas a demissão sem justa causa dá direito ao seguro-desemprego');
+  if (monthsWorked < requiredMonths) {
+    return ineligible(`São necessários ${requiredMonths} meses trabalhados para a ${claim}ª solicitação`);
+  }
+  // The minimum-wage floor would otherwise pay a benefit on no salary at all
+  if (salaries.length === 0) return ineligible('Informe ao menos um dos três últimos salários');
+
+  let value: number;
+  let formula: string;
+  if (averageSalary <= table.firstUpTo) {
+    value = averageSalary * 0.8;
+    formula = `80% × ${brl(averageSalary)}`;
+  } else if (averageSalary <= table.secondUpTo) {
+    value = table.secondBase + (averageSalary - table.firstUpTo) * 0.5;
+    formula = `${brl(table.secondBase)} + 50% × (${brl(averageSalary)} − ${brl(table.firstUpTo)})`;
+  } else {
+    value = table.ceiling;
+    formula = 'teto do benefício';
+  }
+
+  // Art. 5º, § 2º: never below the minimum wage
+  const minimumWage = getTaxTable(dismissalDate).minimumWage;
+  const installmentValue = money(Math.min(table.ceiling, Math.max(minimumWage, value)));
+  const installments = countInstallments(monthsWorked);
+  const total = multiplyMoney(installmentValue, installments);
+  steps.push(
+    step('Valor da parcela', installmentValue, `${formula}, entre ${brl(minimumWage)} e ${brl(table.ceiling)}`),
+    step('Parcelas', installments, `${monthsWorked} meses nos últimos 36`, 'factor'),
+    step('Total', total, `${brl(installmentValue)} × ${installments}`)
+  );
+
+  return {
+    eligible: true,
+    claim,
+    requiredMonths,
+    averageSalary,
+    installments,
+    installmentValue,
+    total,
+    tableVersion: table.version,
+    trace: { steps }
+  };
+}
@@ -4,3 +4,33 @@ import { twMerge } from 'tailwind-merge';
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Parses a YYYY-MM or YYYY-MM-DD input value as a local date, avoiding the UTC
+// shift that `new Date('2024-03-01')` applies.
+export function parseLocalDate(value: string): Date {
+  const [year, month = 1, day = 1] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Formats decimal hours as 8h48
+export function formatHours(hours: number): string {
+  const totalMinutes = Math.round(hours * 60);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return `${h}h${String(m).padStart(2, '0')}`;
+}
+
+// Formats a value as 1.234,56, without the currency symbol, as printed documents do
+export function formatMoney(value: number): string {
+  return new Intl.NumberFormat('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+}
+
+export function downloadFile(filename: string, content: string | Blob, type: string = 'application/octet-stream') {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
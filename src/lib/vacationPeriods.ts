@@ -0,0 +1,83 @@
+import { addDays, addMonths, differenceInCalendarDays, differenceInMonths } from 'date-fns';
+
+export type VacationPeriodStatus = 'gozado' | 'vencido-simples' | 'vencido-dobro' | 'proporcional';
+
+export interface VacationPeriod {
+  index: number;
+  start: Date;
+  end: Date;
+  concessiveEnd: Date;
+  status: VacationPeriodStatus;
+  months: number;
+  absences: number;
+  entitledDays: number;
+}
+
+export interface VacationPeriodOptions {
+  // Complete periods already taken, counted from admission. When omitted
+  // none are, and callers should warn that the count was not informed.
+  takenPeriods?: number;
+  // Unjustified absences per acquisition period, indexed from admission
+  absences?: number[];
+}
+
+// Art. 130: vacation days according to unjustified absences in the period
+export function vacationDaysForAbsences(absences: number): number {
+  if (absences <= 5) return 30;
+  if (absences <= 14) return 24;
+  if (absences <= 23) return 18;
+  if (absences <= 32) return 12;
+  return 0;
+}
+
+// Art. 146, parágrafo único: 1/12 per month of service or fraction over 14 days
+function countVacationMonths(start: Date, end: Date): number {
+  const dayAfterEnd = addDays(end, 1);
+  const months = differenceInMonths(dayAfterEnd, start);
+  const remainingDays = differenceInCalendarDays(dayAfterEnd, addMonths(start, months));
+  return Math.min(12, remainingDays >= 15 ? months + 1 : months);
+}
+
+// Splits the contract into 12-month acquisition periods counted from the
+// admission date. Complete periods not yet taken are vencidos; once the
+// 12-month concessive period has also elapsed they are due in double
+// (art. 137). The last, incomplete period is proporcional.
+export function buildVacationPeriods(
+  admissionDate: Date,
+  endDate: Date,
+  options: VacationPeriodOptions = {}
+): VacationPeriod[] {
+  const { takenPeriods = 0, absences = [] } = options;
+  const periods: VacationPeriod[] = [];
+
+  for (let index = 0; ; index++) {
+    const start = addMonths(admissionDate, 12 * index);
+    if (start > endDate) break;
+
+    const fullEnd = addDays(addMonths(admissionDate, 12 * (index + 1)), -1);
+    const concessiveEnd = addMonths(fullEnd, 12);
+    const complete = fullEnd <= endDate;
+    const periodAbsences = absences[index] ?? 0;
+    const months = complete ? 12 : countVacationMonths(start, endDate);
+
+    let status: VacationPeriodStatus = 'proporcional';
+    if (complete) {
+      if (index < takenPeriods) status = 'gozado';
+      else if (concessiveEnd < endDate) status = 'vencido-dobro';
+      else status = 'vencido-simples';
+    }
+
+    periods.push({
+      index,
+      start,
+      end: complete ? fullEnd : endDate,
+      concessiveEnd,
+      status,
+      months,
+      absences: periodAbsences,
+      entitledDays: vacationDaysForAbsences(periodAbsences) * months / 12
+    });
+  }
+
+  return periods;
+}